@@ -1,35 +1,30 @@
+const path = require('path');
 
-const reporter = require('cucumber-html-reporter');
+// Scenario retries, see src/retry.ts
+const retries = Number(process.env.RETRIES ?? 0);
+const retryArgs = retries > 0 ? ['--retry', String(retries)] : [];
+if (retries > 0 && process.env.RETRY_TAGS) retryArgs.push('--retry-tag-filter', process.env.RETRY_TAGS);
+
+// Child runs (browser matrix, shards) write to their own E2E_OUTPUT_DIR, see src/output.ts
+const cucumberJson = path.join(process.env.E2E_OUTPUT_DIR ?? '', 'cucumber-report.json');
 
 module.exports = {
+  // Argv arrays rather than strings, so values (e.g. a RETRY_TAGS expression with quotes) are passed as they are
   default: [
-    "--require-module ts-node/register",
-    "--require-module tsconfig-paths/register",
-    "--require features/**/*.ts",
-    "--require src/hooks.ts",
-    "--format json:cucumber-report.json",
-  ].join(" "),
-  afterLaunch: async function () {
-    const htmlReportOptions = {
-      theme: 'bootstrap',
-      jsonFile: 'result/cucumber-report.json',
-      output: 'result/cucumber-report.html',
-      reportSuiteAsScenarios: true,
-      launchReport: true,
-      screenshotsDirectory: 'screenshots/',
-      storeScreenshots: true,
-      metadata: {
-        'App Version': '1.0.0',
-        'Test Environment': 'STAGING',
-        'Browser': 'Chrome',
-        'Platform': 'Windows 10',
-        'Parallel': 'Scenarios',
-        'Executed': 'Remote',
-      },
-    };
-
-    reporter.generate(htmlReportOptions);
-  },
+    "--require-module", "ts-node/register",
+    "--require-module", "tsconfig-paths/register",
+    "--require", "features/**/*.ts",
+    "--require", "src/world.ts",
+    "--require", "src/steps/**/*.ts",
+    "--require", "src/hooks.ts",
+    "--format", `json:${cucumberJson}`,
+    ...retryArgs,
+  ],
+  // Unit tests of the framework itself, kept out of the default run and its reports
+  unit: [
+    "--require-module", "ts-node/register",
+    "--require-module", "tsconfig-paths/register",
+    "--require", "test/**/*.ts",
+    "test/**/*.feature",
+  ],
 };
-
-
@@ -0,0 +1,26 @@
+@api-stub
+Feature: API steps
+
+  Scenario: Create a user and read it back
+    Given I use the bearer token "test-token"
+    When I send POST "/users" with body:
+      """
+      { "name": "Ada", "email": "ada@example.com" }
+      """
+    Then the response status should be 201
+    When I save the response field "id" as "userId"
+    And I send GET "/users/{{userId}}"
+    Then the response status should be 200
+    And the response should match schema "user.json"
+    And the response field "name" should equal "Ada"
+    And the response field "id" should equal "{{userId}}"
+    And the response time should be below 2000 ms
+
+  Scenario: Requests without a token are rejected
+    Given the request header "Authorization" is "Bearer wrong"
+    When I send GET "/users/1"
+    Then the response status should be 401
+    And the response should match schema:
+      """
+      { "type": "object", "required": ["error"] }
+      """
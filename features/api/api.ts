@@ -0,0 +1,46 @@
+import http from "http";
+import { type AddressInfo } from "net";
+
+import { Before, AfterAll } from "@cucumber/cucumber";
+import { type PlaywrightWorld } from '@/world';
+
+// Local stand-in for a users API so the API steps run without network access
+const users = new Map<number, { id: number; name: string; email: string }>();
+let server: http.Server | undefined;
+let baseUrl = '';
+
+function startStub(): Promise<string> {
+  server = http.createServer((req, res) => {
+    const send = (status: number, body: unknown) => {
+      res.writeHead(status, { 'Content-Type': 'application/json' });
+      res.end(JSON.stringify(body));
+    };
+    if (req.headers.authorization !== 'Bearer test-token') return send(401, { error: 'unauthorized' });
+
+    let raw = '';
+    req.on('data', (chunk) => (raw += chunk));
+    req.on('end', () => {
+      if (req.method === 'POST' && req.url === '/api/users') {
+        const user = { id: users.size + 1, ...JSON.parse(raw) };
+        users.set(user.id, user);
+        return send(201, user);
+      }
+      const match = req.url?.match(/^\/api\/users\/(\d+)$/);
+      const user = match && users.get(Number(match[1]));
+      if (req.method === 'GET' && user) return send(200, user);
+      send(404, { error: 'not found' });
+    });
+  });
+  return new Promise((resolve) => {
+    server!.listen(0, '127.0.0.1', () => resolve(`http://127.0.0.1:${(server!.address() as AddressInfo).port}/api`));
+  });
+}
+
+Before({ tags: '@api-stub' }, async function (this: PlaywrightWorld) {
+  baseUrl ||= await startStub();
+  await this.configureApi({ baseUrl });
+});
+
+AfterAll(function () {
+  server?.close();
+});
@@ -8,3 +8,11 @@ Feature: Saucedemo Login
     Examples:
       | username      | password     |
       | standard_user | secret_sauce |
+
+  Scenario: Login with built-in steps
+    Given I open "/"
+    When I type "standard_user" into "id:user-name"
+    And I type "secret_sauce" into "id:password"
+    And I click "id:login-button"
+    Then the URL should be "/inventory.html"
+    And "css:.title" should have text "Products"
@@ -1,15 +1,16 @@
 import { startWebDriver, openSauceDemo, login, verifyInventoryPage } from '~/repository/saucedemo';
 import { Given, When, Then } from "@cucumber/cucumber";
+import { type PlaywrightWorld } from '@/world';
 
-Given('I have opened Saucedemo', async () => {
-    await startWebDriver();
-    await openSauceDemo();
+Given('I have opened Saucedemo', async function (this: PlaywrightWorld) {
+    const page = await startWebDriver(this);
+    await openSauceDemo(page);
 });
 
-When('I login with {string} and {string}', async (user: string, pass: string) => {
-    await login(user, pass);
+When('I login with {string} and {string}', async function (this: PlaywrightWorld, user: string, pass: string) {
+    await login(this.page, user, pass);
 });
 
-Then('I see the inventory page', async () => {
-    await verifyInventoryPage();
+Then('I see the inventory page', async function (this: PlaywrightWorld) {
+    await verifyInventoryPage(this.page);
 });
@@ -1,5 +1,14 @@
+const fs = require('fs');
 const reporter = require('cucumber-html-reporter');
 
+// Reporting lives in src/report (TypeScript)
+require('ts-node').register({ transpileOnly: true });
+require('tsconfig-paths/register');
+const path = require('path');
+const { buildReport, reportMetadata, DASHBOARD_FILE, SUMMARY_FILE, TRENDS_FILE } = require('./src/report');
+const { expiryMessage } = require('./src/quarantine');
+const { mergeTimelines } = require('./src/timeline');
+
 const htmlReportOptions = {
   theme: 'bootstrap',
   jsonFile: 'cucumber-report.json',
@@ -8,14 +17,22 @@ const htmlReportOptions = {
   launchReport: true,
   screenshotsDirectory: 'screenshots/',
   storeScreenshots: true,
-  metadata: {
-    'App Version': '1.0.0',
-    'Test Environment': 'STAGING',
-    'Browser': 'Chrome',
-    'Platform': 'Windows 10',
-    'Parallel': 'Scenarios',
-    'Executed': 'Remote',
-  },
+  // Browser, OS, git revision, environment, profile, times, ... see src/metadata.ts
+  metadata: reportMetadata(),
 };
 
-reporter.generate(htmlReportOptions);
+if (fs.existsSync(htmlReportOptions.jsonFile)) reporter.generate(htmlReportOptions);
+
+// Parallel workers each keep their own timeline file; combine them into cucumber-timeline.json
+mergeTimelines();
+
+// One dashboard + summary JSON across Cucumber, appendReport and WDIO results; also feeds reports/history
+const summary = buildReport();
+const { total, passed, failed, skipped } = summary.totals;
+console.log(`${total} scenarios (${passed} passed, ${failed} failed, ${skipped} skipped): ${DASHBOARD_FILE}, ${SUMMARY_FILE}`);
+// Quarantine: see src/quarantine.ts
+if (summary.quarantined.length) console.log(`${summary.quarantined.length} quarantined, ${summary.releaseCandidates.length} passed (release candidates)`);
+for (const candidate of summary.releaseCandidates) console.log(`  Release candidate: ${candidate.scenario} (${candidate.issue})`);
+for (const entry of summary.expiredQuarantine) console.error(`Error: ${expiryMessage(entry)}`);
+if (summary.expiredQuarantine.length) process.exitCode = 1;
+console.log(`Trends: ${path.relative(process.cwd(), TRENDS_FILE)}`);
@@ -1,28 +1,25 @@
 import { type Page } from 'playwright';
-import { openBrowser, closeBrowser, goTo, input, click, waitUntilUrl } from '@/playwright';
-import { setPage } from '@/session';
+import { goTo, input, click, waitUntilUrl } from '@/playwright';
+import { type PlaywrightWorld } from '@/world';
 
-export let page: Page;
-
-export async function startWebDriver() {
-  page = await openBrowser();
-  setPage(page);
+export async function startWebDriver(world: PlaywrightWorld): Promise<Page> {
+  return world.openBrowser();
 }
 
-export async function openSauceDemo() {
-  await goTo(page, 'https://www.saucedemo.com/');
+export async function openSauceDemo(page: Page) {
+  await goTo(page, '/');
 }
 
-export async function login(user: string, pass: string) {
+export async function login(page: Page, user: string, pass: string) {
   await input(page, 'id:user-name', user);
   await input(page, 'id:password', pass);
   await click(page, 'id:login-button');
 }
 
-export async function verifyInventoryPage() {
-  await waitUntilUrl(page, 'https://www.saucedemo.com/inventory.html');
+export async function verifyInventoryPage(page: Page) {
+  await waitUntilUrl(page, '/inventory.html');
 }
 
-export async function quitWebDriver() {
-  await closeBrowser(page);
+export async function quitWebDriver(world: PlaywrightWorld) {
+  await world.closeBrowser();
 }
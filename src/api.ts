@@ -0,0 +1,228 @@
+/**
+ * API testing
+ *
+ * HTTP helpers on Playwright's APIRequestContext: a context with base URL and
+ * auth, requests that record their response time, JSON Schema validation
+ * (schemas live in `schemas/`), and values extracted from one response and
+ * interpolated into the next request as `{{name}}`.
+ *
+ * @example
+ * ```ts
+ * const api = await newApiContext({ auth: { bearer: process.env.API_TOKEN } });
+ * const created = await sendRequest(api, 'POST', '/users', { json: { name: 'Ada' } });
+ * expectStatus(created, 201);
+ * const vars = { userId: String(extractValue(created.body, 'id')) };
+ * const user = await sendRequest(api, 'GET', interpolate('/users/{{userId}}', vars));
+ * validateSchema(user.body, 'user.json');
+ * expectResponseTime(user, 500);
+ * await api.dispose();
+ * ```
+ *
+ * @remarks
+ * Environment variables:
+ * - API_BASE_URL: Base URL for relative request paths (default: the environment's
+ *   `apiBaseUrl`, then its `baseUrl`, see src/environment.ts)
+ * - API_TOKEN: Bearer token sent when no other auth is configured
+ */
+import { request, type APIRequestContext } from 'playwright';
+import fs from 'fs';
+import path from 'path';
+import Ajv, { type ErrorObject, type ValidateFunction } from 'ajv';
+import { getEnvironment } from '@/environment';
+import { AssertionFailure, E2EError } from '@/errors';
+
+export const SCHEMAS_DIR = path.join(process.cwd(), 'schemas');
+
+export type HttpMethod = 'GET' | 'POST' | 'PUT' | 'PATCH' | 'DELETE' | 'HEAD' | 'OPTIONS';
+
+export type ApiAuth =
+  | { bearer: string }
+  | { username: string; password: string }
+  | { header: string; value: string };
+
+export interface ApiContextOptions {
+  /** Base URL for relative paths (default: API_BASE_URL, apiBaseUrl, baseUrl) */
+  baseUrl?: string;
+  auth?: ApiAuth;
+  headers?: Record<string, string>;
+  /** Request timeout in milliseconds (default: 30000) */
+  timeout?: number;
+}
+
+export interface RequestOptions {
+  /** JSON body */
+  json?: unknown;
+  /** Form body (application/x-www-form-urlencoded) */
+  form?: Record<string, string>;
+  /** Raw body */
+  data?: string;
+  headers?: Record<string, string>;
+  params?: Record<string, string | number | boolean>;
+}
+
+export interface ApiResponse {
+  method: string;
+  url: string;
+  status: number;
+  headers: Record<string, string>;
+  /** Parsed JSON, or the text when the body isn't JSON */
+  body: any;
+  text: string;
+  durationMs: number;
+}
+
+/** Base URL used for relative API paths */
+export function getApiBaseUrl(): string {
+  const env = getEnvironment();
+  return process.env.API_BASE_URL ?? env.apiBaseUrl ?? env.baseUrl;
+}
+
+function authHeaders(auth: ApiAuth | undefined): Record<string, string> {
+  if (!auth) return process.env.API_TOKEN ? { Authorization: `Bearer ${process.env.API_TOKEN}` } : {};
+  if ('bearer' in auth) return { Authorization: `Bearer ${auth.bearer}` };
+  if ('header' in auth) return { [auth.header]: auth.value };
+  return { Authorization: `Basic ${Buffer.from(`${auth.username}:${auth.password}`).toString('base64')}` };
+}
+
+/**
+ * Create a request context for API calls. Dispose it when done.
+ */
+export async function newApiContext(options: ApiContextOptions = {}): Promise<APIRequestContext> {
+  const baseURL = options.baseUrl ?? getApiBaseUrl();
+  return request.newContext({
+    baseURL: baseURL ? `${baseURL.replace(/\/+$/, '')}/` : undefined,
+    extraHTTPHeaders: { ...authHeaders(options.auth), ...options.headers },
+    timeout: options.timeout ?? 30000,
+  });
+}
+
+/**
+ * Send a request and time it.
+ *
+ * @param api - Context from newApiContext()
+ * @param method - HTTP method
+ * @param url - Absolute URL or path relative to the base URL
+ * @throws E2EError when the request cannot be sent (any HTTP status is a response)
+ */
+export async function sendRequest(api: APIRequestContext, method: HttpMethod | string, url: string, options: RequestOptions = {}): Promise<ApiResponse> {
+  const verb = method.toUpperCase();
+  // Relative to the base URL's path, so '/users' under 'https://host/api/' is 'https://host/api/users'
+  const target = /^[a-z][a-z0-9+.-]*:/i.test(url) ? url : url.replace(/^\/+/, '');
+  const start = Date.now();
+  try {
+    const response = await api.fetch(target, {
+      method: verb,
+      headers: options.headers,
+      params: options.params,
+      data: options.json ?? options.data,
+      form: options.form,
+    });
+    const durationMs = Date.now() - start;
+    const text = await response.text();
+    let body: any = text;
+    try {
+      body = JSON.parse(text);
+    } catch { }
+    return { method: verb, url: response.url(), status: response.status(), headers: response.headers(), body, text, durationMs };
+  } catch (e: any) {
+    throw new E2EError(`${verb} ${url} failed: ${e?.message ?? e}`, { action: 'sendRequest', url, elapsedMs: Date.now() - start }, e);
+  }
+}
+
+/**
+ * Read a value from a response body by path: `data.items[0].id` (a leading `$.` is allowed).
+ *
+ * @returns undefined when any part of the path is missing
+ */
+export function extractValue(body: unknown, valuePath: string): any {
+  const parts = valuePath
+    .replace(/^\$\.?/, '')
+    .replace(/\[(\d+)\]/g, '.$1')
+    .split('.')
+    .filter(Boolean);
+  let current: any = body;
+  for (const part of parts) {
+    if (current === null || current === undefined) return undefined;
+    current = current[part];
+  }
+  return current;
+}
+
+/**
+ * Replace `{{name}}` placeholders with saved values.
+ *
+ * @throws Error when a placeholder has no value
+ */
+export function interpolate(template: string, vars: Record<string, string>): string {
+  return template.replace(/\{\{\s*([\w.-]+)\s*\}\}/g, (_, name) => {
+    if (!(name in vars)) throw new Error(`No saved value named "${name}" (save one first, e.g. 'I save the response field "id" as "${name}"')`);
+    return vars[name];
+  });
+}
+
+function describe(response: ApiResponse): string {
+  return `${response.method} ${response.url}`;
+}
+
+/**
+ * @throws AssertionFailure when the status differs
+ */
+export function expectStatus(response: ApiResponse, expected: number): void {
+  if (response.status === expected) return;
+  throw new AssertionFailure(
+    `${describe(response)} returned ${response.status}, expected ${expected}\n  body: ${response.text.slice(0, 500)}`,
+    { action: 'expectStatus', url: response.url, elapsedMs: response.durationMs },
+    expected,
+    response.status
+  );
+}
+
+/**
+ * @throws AssertionFailure when the response took longer than maxMs
+ */
+export function expectResponseTime(response: ApiResponse, maxMs: number): void {
+  if (response.durationMs <= maxMs) return;
+  throw new AssertionFailure(
+    `${describe(response)} took ${response.durationMs}ms, expected at most ${maxMs}ms`,
+    { action: 'expectResponseTime', url: response.url, elapsedMs: response.durationMs },
+    maxMs,
+    response.durationMs
+  );
+}
+
+const ajv = new Ajv({ allErrors: true, strict: false });
+// Compiled once per schema file: recompiling a schema with an $id is an error in Ajv
+const compiled = new Map<string, ValidateFunction>();
+
+/**
+ * Load a schema from `schemas/` (the `.json` extension is optional).
+ */
+export function loadSchema(name: string): object {
+  const file = path.join(SCHEMAS_DIR, name.endsWith('.json') ? name : `${name}.json`);
+  if (!fs.existsSync(file)) throw new Error(`Schema not found: ${path.relative(process.cwd(), file)}`);
+  return JSON.parse(fs.readFileSync(file, 'utf8'));
+}
+
+/**
+ * Validate a value against a JSON Schema.
+ *
+ * @param schema - Schema object, or a file name in `schemas/`
+ * @throws AssertionFailure listing every validation error
+ */
+export function validateSchema(value: unknown, schema: object | string): void {
+  let validate: ValidateFunction;
+  if (typeof schema === 'string') {
+    validate = compiled.get(schema) ?? ajv.compile(loadSchema(schema));
+    compiled.set(schema, validate);
+  } else {
+    validate = ajv.compile(schema);
+  }
+  if (validate(value)) return;
+  const errors = (validate.errors ?? []).map((e: ErrorObject) => `${e.instancePath || '/'} ${e.message}`);
+  throw new AssertionFailure(
+    [`Response does not match schema${typeof schema === 'string' ? ` "${schema}"` : ''}:`, ...errors.map((e) => `  ${e}`)].join('\n'),
+    { action: 'validateSchema', elapsedMs: 0 },
+    schema,
+    errors
+  );
+}
@@ -0,0 +1,125 @@
+/**
+ * Environment configuration
+ *
+ * Loads `config/<TEST_ENV>.json` so one feature set can run against several
+ * environments: the base URL that relative paths resolve against, an optional
+ * API base URL, named credentials, feature flags and custom report metadata.
+ * String values may reference environment variables as `${NAME}` (also read
+ * from `.env`), which keeps secrets out of the repository.
+ *
+ * @example
+ * ```json
+ * // config/staging.json
+ * {
+ *   "baseUrl": "https://staging.example.com",
+ *   "apiBaseUrl": "https://api.staging.example.com/v1",
+ *   "credentials": { "standard": { "username": "standard_user", "password": "${STANDARD_PASSWORD}" } },
+ *   "flags": { "newCheckout": true },
+ *   "metadata": { "App Version": "${APP_VERSION}" }
+ * }
+ * ```
+ *
+ * @remarks
+ * Environment variables:
+ * - TEST_ENV: Name of the config file to load (default: 'staging')
+ * - BASE_URL: Overrides the configured base URL
+ */
+import fs from 'fs';
+import path from 'path';
+require('dotenv').config();
+
+export const CONFIG_DIR = path.join(process.cwd(), 'config');
+
+export interface Credentials {
+  username: string;
+  password: string;
+  [k: string]: string;
+}
+
+export interface EnvironmentConfig {
+  /** Environment name (the TEST_ENV value) */
+  name: string;
+  /** Base URL for relative navigation; empty when not configured */
+  baseUrl: string;
+  /** Base URL for API requests when it differs from baseUrl (see src/api.ts) */
+  apiBaseUrl?: string;
+  credentials: Record<string, Credentials>;
+  flags: Record<string, boolean>;
+  /** Custom key/values shown with the run metadata in every report */
+  metadata: Record<string, string>;
+}
+
+let cached: EnvironmentConfig | undefined;
+
+function expandVars<T>(value: T): T {
+  if (typeof value === 'string') {
+    return value.replace(/\$\{(\w+)\}/g, (_, name) => process.env[name] ?? '') as T;
+  }
+  if (Array.isArray(value)) return value.map(expandVars) as T;
+  if (value && typeof value === 'object') {
+    return Object.fromEntries(Object.entries(value).map(([k, v]) => [k, expandVars(v)])) as T;
+  }
+  return value;
+}
+
+/**
+ * Return the active environment configuration (loaded once per process).
+ *
+ * @throws Error if TEST_ENV names a config file that does not exist
+ */
+export function getEnvironment(): EnvironmentConfig {
+  if (cached) return cached;
+
+  const name = process.env.TEST_ENV ?? 'staging';
+  const file = path.join(CONFIG_DIR, `${name}.json`);
+  let raw: Partial<EnvironmentConfig> = {};
+  if (fs.existsSync(file)) {
+    raw = expandVars(JSON.parse(fs.readFileSync(file, 'utf8')));
+  } else if (process.env.TEST_ENV) {
+    throw new Error(`No config file for TEST_ENV="${name}" (expected ${path.relative(process.cwd(), file)})`);
+  }
+
+  cached = {
+    name,
+    baseUrl: process.env.BASE_URL ?? raw.baseUrl ?? '',
+    apiBaseUrl: raw.apiBaseUrl,
+    credentials: raw.credentials ?? {},
+    flags: raw.flags ?? {},
+    metadata: raw.metadata ?? {},
+  };
+  return cached;
+}
+
+/**
+ * Resolve a URL against the active base URL. Absolute URLs are returned unchanged.
+ *
+ * @example
+ * ```ts
+ * // baseUrl: 'https://www.saucedemo.com'
+ * resolveUrl('/inventory.html'); // 'https://www.saucedemo.com/inventory.html'
+ * resolveUrl('https://example.com'); // unchanged
+ * ```
+ */
+export function resolveUrl(url: string): string {
+  const { baseUrl } = getEnvironment();
+  if (/^[a-z][a-z0-9+.-]*:/i.test(url) || !baseUrl) return url;
+  return `${baseUrl.replace(/\/+$/, '')}/${url.replace(/^\/+/, '')}`;
+}
+
+/**
+ * Look up named credentials from the active environment.
+ *
+ * @throws Error if the environment defines no credentials under that name
+ */
+export function getCredentials(name: string): Credentials {
+  const creds = getEnvironment().credentials[name];
+  if (!creds) throw new Error(`No credentials named "${name}" in environment "${getEnvironment().name}"`);
+  return creds;
+}
+
+/**
+ * Check a feature flag of the active environment (unset flags are off).
+ */
+export function isFeatureEnabled(flag: string): boolean {
+  return getEnvironment().flags[flag] === true;
+}
@@ -0,0 +1,94 @@
+/**
+ * Typed errors with failure context
+ *
+ * Helpers in src/playwright.ts and the matchers in src/expect.ts throw these
+ * instead of raw Playwright errors, so a failure always says which action ran,
+ * on which selector (as written and normalized), on which page and for how
+ * long. The most recent one is remembered so the After hook can attach a DOM
+ * snapshot, a screenshot of the target and a readable summary to the report.
+ */
+import { errors as pwErrors } from 'playwright';
+
+export interface FailureContext {
+  /** Helper or matcher that failed, e.g. 'click' or 'toHaveText' */
+  action: string;
+  /** Selector as written, e.g. 'id:login-button' */
+  selector?: string;
+  /** Normalized selector, e.g. '#login-button' */
+  normalizedSelector?: string;
+  /** Page URL when the failure happened */
+  url?: string;
+  /** Time spent in the action before it failed, in milliseconds */
+  elapsedMs: number;
+}
+
+let lastFailure: E2EError | undefined;
+
+/** Base class of every framework error */
+export class E2EError extends Error {
+  readonly context: FailureContext;
+  readonly cause?: unknown;
+
+  constructor(message: string, context: FailureContext, cause?: unknown) {
+    super(message);
+    this.name = new.target.name;
+    this.context = context;
+    this.cause = cause;
+    lastFailure = this;
+  }
+
+  /** Multi-line, human-readable description for reports */
+  summary(): string {
+    const { action, selector, normalizedSelector, url, elapsedMs } = this.context;
+    return [
+      `${this.name}: ${this.message.split('\n')[0]}`,
+      `  action:     ${action}`,
+      ...(selector ? [`  selector:   ${selector}`, `  normalized: ${normalizedSelector ?? selector}`] : []),
+      `  url:        ${url ?? '<unknown>'}`,
+      `  elapsed:    ${elapsedMs}ms`,
+    ].join('\n');
+  }
+}
+
+/** The element never appeared (or never became visible) within the timeout */
+export class ElementNotFoundError extends E2EError { }
+
+/** Navigation failed or the expected URL was never reached */
+export class NavigationError extends E2EError { }
+
+/** An expectation did not hold within its timeout */
+export class AssertionFailure extends E2EError {
+  readonly expected: unknown;
+  readonly actual: unknown;
+
+  constructor(message: string, context: FailureContext, expected: unknown, actual: unknown) {
+    super(message, context);
+    this.expected = expected;
+    this.actual = actual;
+  }
+}
+
+const NAVIGATION_ACTIONS = ['goTo', 'waitUntilUrl', 'refresh', 'goBack', 'goForward'];
+
+/**
+ * Wrap any error thrown by a helper into the matching typed error.
+ * Errors that already are E2EErrors are returned unchanged.
+ */
+export function toE2EError(error: unknown, context: FailureContext): E2EError {
+  if (error instanceof E2EError) return error;
+  const message = (error as Error)?.message ?? String(error);
+  if (NAVIGATION_ACTIONS.includes(context.action)) return new NavigationError(message, context, error);
+  if (context.selector && error instanceof pwErrors.TimeoutError) {
+    return new ElementNotFoundError(message, context, error);
+  }
+  return new E2EError(message, context, error);
+}
+
+/**
+ * Return and forget the most recent framework error of this worker.
+ */
+export function takeLastFailure(): E2EError | undefined {
+  const failure = lastFailure;
+  lastFailure = undefined;
+  return failure;
+}
@@ -0,0 +1,208 @@
+/**
+ * Auto-retrying assertions for page state
+ *
+ * Unlike getText / isVisible / getElementCount, which return a snapshot, these
+ * matchers keep polling the page until the expectation holds or the timeout
+ * expires, so they don't race with rendering. A failure reports the original
+ * selector, its normalized form, the expected value and the last value seen.
+ *
+ * @example
+ * ```ts
+ * await expectElement(page, 'css:.title').toHaveText('Products');
+ * await expectElement(page, 'css:.inventory_item').toHaveCount(6);
+ * await expectElement(page, 'id:login-button', { timeout: 10000 }).toBeEnabled();
+ * await expectPage(page).toHaveUrl('/inventory.html');
+ * ```
+ *
+ * @remarks
+ * String text matchers compare trimmed text with whitespace collapsed; pass a
+ * RegExp for anything looser. Default timeout is 5 seconds.
+ */
+import { type Page, type Locator } from 'playwright';
+import { toLocator, tryNormalizeSelector } from '@/selector';
+import { resolveUrl } from '@/environment';
+import { AssertionFailure } from '@/errors';
+
+const DEFAULT_TIMEOUT = 5000;
+const POLL_INTERVAL = 100;
+const NOT_FOUND = '<no matching element>';
+
+export interface ExpectOptions {
+  /** How long to keep retrying, in milliseconds (default: 5000) */
+  timeout?: number;
+}
+
+export interface ElementAssertions {
+  toHaveText(expected: string | RegExp): Promise<void>;
+  toContainText(expected: string): Promise<void>;
+  toBeVisible(): Promise<void>;
+  toBeHidden(): Promise<void>;
+  toHaveCount(expected: number): Promise<void>;
+  /** Without a value, only checks that the attribute is present */
+  toHaveAttribute(name: string, expected?: string | RegExp): Promise<void>;
+  toHaveValue(expected: string | RegExp): Promise<void>;
+  toHaveCss(property: string, expected: string | RegExp): Promise<void>;
+  toBeEnabled(): Promise<void>;
+  toBeDisabled(): Promise<void>;
+  toBeChecked(): Promise<void>;
+  toBeUnchecked(): Promise<void>;
+}
+
+export interface PageAssertions {
+  /** Relative URLs resolve against the environment base URL */
+  toHaveUrl(expected: string | RegExp): Promise<void>;
+  toHaveTitle(expected: string | RegExp): Promise<void>;
+}
+
+interface PollResult<T> {
+  pass: boolean;
+  last: T | string;
+  elapsed: number;
+}
+
+function normalizeText(value: string): string {
+  return value.replace(/\s+/g, ' ').trim();
+}
+
+function matches(actual: unknown, expected: unknown): boolean {
+  if (expected instanceof RegExp) return typeof actual === 'string' && expected.test(actual);
+  return actual === expected;
+}
+
+function format(value: unknown): string {
+  if (value instanceof RegExp) return value.toString();
+  if (value === NOT_FOUND) return NOT_FOUND;
+  return JSON.stringify(value);
+}
+
+async function poll<T>(probe: () => Promise<T>, check: (value: T) => boolean, timeout: number): Promise<PollResult<T>> {
+  const start = Date.now();
+  let last: T | string = NOT_FOUND;
+  for (;;) {
+    try {
+      last = await probe();
+      if (check(last as T)) return { pass: true, last, elapsed: Date.now() - start };
+    } catch (e: any) {
+      last = e?.message === NOT_FOUND ? NOT_FOUND : `<error: ${e?.message ?? e}>`;
+    }
+    if (Date.now() - start >= timeout) return { pass: false, last, elapsed: Date.now() - start };
+    await new Promise((r) => setTimeout(r, POLL_INTERVAL));
+  }
+}
+
+/**
+ * Assert on an element, retrying until the expectation holds or the timeout expires.
+ *
+ * @param page - The Page instance
+ * @param selector - Element selector (with optional prefix)
+ * @param options - Retry timeout
+ * @throws AssertionFailure when the timeout expires
+ */
+export function expectElement(page: Page, selector: string, options: ExpectOptions = {}): ElementAssertions {
+  const timeout = options.timeout ?? DEFAULT_TIMEOUT;
+
+  async function first(): Promise<Locator> {
+    const locator = toLocator(page, selector);
+    if ((await locator.count()) === 0) throw new Error(NOT_FOUND);
+    return locator.first();
+  }
+
+  async function assertPoll<T>(matcher: string, expected: unknown, probe: () => Promise<T>, check: (value: T) => boolean) {
+    const result = await poll(probe, check, timeout);
+    if (result.pass) return;
+    const normalizedSelector = tryNormalizeSelector(selector);
+    throw new AssertionFailure(
+      [
+        `expectElement(${selector}).${matcher} failed after ${result.elapsed}ms`,
+        `  selector:   ${selector}`,
+        `  normalized: ${normalizedSelector}`,
+        `  expected:   ${format(expected)}`,
+        `  last seen:  ${format(result.last)}`,
+      ].join('\n'),
+      { action: matcher, selector, normalizedSelector, url: page.url(), elapsedMs: result.elapsed },
+      expected,
+      result.last
+    );
+  }
+
+  const probeTimeout = { timeout: POLL_INTERVAL * 5 };
+
+  return {
+    toHaveText: (expected) =>
+      assertPoll('toHaveText', expected, async () => normalizeText(await (await first()).innerText(probeTimeout)), (text) =>
+        expected instanceof RegExp ? expected.test(text) : text === normalizeText(expected)
+      ),
+    toContainText: (expected) =>
+      assertPoll('toContainText', expected, async () => normalizeText(await (await first()).innerText(probeTimeout)), (text) =>
+        text.includes(normalizeText(expected))
+      ),
+    toBeVisible: () =>
+      assertPoll('toBeVisible', 'visible', async () => ((await (await first()).isVisible()) ? 'visible' : 'hidden'), (v) => v === 'visible'),
+    toBeHidden: () =>
+      assertPoll(
+        'toBeHidden',
+        'hidden',
+        async () => ((await toLocator(page, selector).first().isVisible()) ? 'visible' : 'hidden'),
+        (v) => v === 'hidden'
+      ),
+    toHaveCount: (expected) =>
+      assertPoll('toHaveCount', expected, () => toLocator(page, selector).count(), (n) => n === expected),
+    toHaveAttribute: (name, expected) =>
+      assertPoll(
+        `toHaveAttribute(${name})`,
+        expected ?? '<present>',
+        async () => (await first()).getAttribute(name, probeTimeout),
+        (value) => (expected === undefined ? value !== null : matches(value, expected))
+      ),
+    toHaveValue: (expected) =>
+      assertPoll('toHaveValue', expected, async () => (await first()).inputValue(probeTimeout), (value) => matches(value, expected)),
+    toHaveCss: (property, expected) =>
+      assertPoll(
+        `toHaveCss(${property})`,
+        expected,
+        async () =>
+          (await first()).evaluate((node: Element, prop: string) => window.getComputedStyle(node).getPropertyValue(prop), property),
+        (value) => matches(value, expected)
+      ),
+    toBeEnabled: () =>
+      assertPoll('toBeEnabled', 'enabled', async () => ((await (await first()).isEnabled(probeTimeout)) ? 'enabled' : 'disabled'), (v) => v === 'enabled'),
+    toBeDisabled: () =>
+      assertPoll('toBeDisabled', 'disabled', async () => ((await (await first()).isEnabled(probeTimeout)) ? 'enabled' : 'disabled'), (v) => v === 'disabled'),
+    toBeChecked: () =>
+      assertPoll('toBeChecked', 'checked', async () => ((await (await first()).isChecked(probeTimeout)) ? 'checked' : 'unchecked'), (v) => v === 'checked'),
+    toBeUnchecked: () =>
+      assertPoll('toBeUnchecked', 'unchecked', async () => ((await (await first()).isChecked(probeTimeout)) ? 'checked' : 'unchecked'), (v) => v === 'unchecked'),
+  };
+}
+
+/**
+ * Assert on the page itself, retrying until the expectation holds or the timeout expires.
+ *
+ * @param page - The Page instance
+ * @param options - Retry timeout
+ * @throws AssertionFailure when the timeout expires
+ */
+export function expectPage(page: Page, options: ExpectOptions = {}): PageAssertions {
+  const timeout = options.timeout ?? DEFAULT_TIMEOUT;
+
+  async function assertPoll(matcher: string, expected: unknown, probe: () => Promise<string>) {
+    const result = await poll(probe, (value) => matches(value, expected), timeout);
+    if (result.pass) return;
+    throw new AssertionFailure(
+      [
+        `expectPage().${matcher} failed after ${result.elapsed}ms`,
+        `  expected:   ${format(expected)}`,
+        `  last seen:  ${format(result.last)}`,
+      ].join('\n'),
+      { action: matcher, url: page.url(), elapsedMs: result.elapsed },
+      expected,
+      result.last
+    );
+  }
+
+  return {
+    toHaveUrl: (expected) =>
+      assertPoll('toHaveUrl', typeof expected === 'string' ? resolveUrl(expected) : expected, async () => page.url()),
+    toHaveTitle: (expected) => assertPoll('toHaveTitle', expected, () => page.title()),
+  };
+}
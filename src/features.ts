@@ -0,0 +1,79 @@
+/**
+ * Feature discovery
+ *
+ * Finds `.feature` files under `features/` and reads their name, tags and
+ * scenarios without running Cucumber, for tools that let someone pick what to
+ * run. Parsing is line based: good enough for listing, not a Gherkin parser.
+ *
+ * @example
+ * ```ts
+ * for (const feature of listFeatures()) {
+ *   console.log(feature.path, feature.scenarios.length);
+ * }
+ * ```
+ */
+import fs from 'fs';
+import path from 'path';
+
+export const FEATURES_DIR = path.join(process.cwd(), 'features');
+
+export interface ScenarioInfo {
+  name: string;
+  /** Line of the Scenario / Scenario Outline keyword */
+  line: number;
+  /** Own tags plus the feature's tags */
+  tags: string[];
+}
+
+export interface FeatureInfo {
+  /** Path relative to the project root, e.g. 'features/saucedemo/saucedemo.feature' */
+  path: string;
+  name: string;
+  tags: string[];
+  scenarios: ScenarioInfo[];
+}
+
+function findFiles(dir: string): string[] {
+  if (!fs.existsSync(dir)) return [];
+  return fs
+    .readdirSync(dir, { withFileTypes: true })
+    .flatMap((entry) => {
+      const full = path.join(dir, entry.name);
+      if (entry.isDirectory()) return findFiles(full);
+      return entry.name.endsWith('.feature') ? [full] : [];
+    })
+    .sort();
+}
+
+/**
+ * Read the name, tags and scenarios of one feature file.
+ */
+export function readFeature(file: string): FeatureInfo {
+  const lines = fs.readFileSync(file, 'utf8').split(/\r?\n/);
+  const info: FeatureInfo = { path: path.relative(process.cwd(), file).split(path.sep).join('/'), name: '', tags: [], scenarios: [] };
+  let pending: string[] = [];
+  lines.forEach((raw, index) => {
+    const line = raw.trim();
+    if (line.startsWith('@')) {
+      pending.push(...line.split(/\s+/).filter((t) => t.startsWith('@')));
+      return;
+    }
+    const feature = line.match(/^Feature:\s*(.*)$/);
+    if (feature) {
+      info.name = feature[1];
+      info.tags = pending;
+    }
+    const scenario = line.match(/^Scenario(?: Outline| Template)?:\s*(.*)$/);
+    if (scenario) info.scenarios.push({ name: scenario[1], line: index + 1, tags: [...info.tags, ...pending] });
+    if (line && !line.startsWith('#')) pending = [];
+  });
+  if (!info.name) info.name = path.basename(file, '.feature');
+  return info;
+}
+
+/**
+ * Every feature file under `features/`, sorted by path.
+ */
+export function listFeatures(dir = FEATURES_DIR): FeatureInfo[] {
+  return findFiles(dir).map(readFeature);
+}
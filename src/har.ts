@@ -0,0 +1,102 @@
+/**
+ * HAR record-and-replay
+ *
+ * Lets suites run fully offline. In record mode every context records its
+ * traffic and, when it closes, the entries are merged into one HAR per
+ * feature under `hars/` (`features/saucedemo/saucedemo.feature` →
+ * `hars/saucedemo/saucedemo.har`). In replay mode the context is served from
+ * that HAR instead of the network. Child runs started side by side (browser
+ * matrix, shards) record into their own output directory instead, and the
+ * coordinator merges their HARs into `hars/` once they have all finished.
+ *
+ * @remarks
+ * Environment variables:
+ * - NETWORK_MODE: 'live' (default), 'record' or 'replay'
+ * - HAR_NOT_FOUND: What replay does with requests missing from the HAR:
+ *   'fail' (default, the request is aborted) or 'passthrough' (sent to the network)
+ */
+import fs from 'fs';
+import path from 'path';
+import { outputPath } from '@/output';
+
+export const HARS_DIR = path.join(process.cwd(), 'hars');
+/** Where record mode writes: HARS_DIR, or the child run's own `hars/` (see mergeRecordedHars()) */
+export const HAR_RECORD_DIR = outputPath('hars');
+
+export type NetworkMode = 'live' | 'record' | 'replay';
+
+export function getNetworkMode(): NetworkMode {
+  const val = String(process.env.NETWORK_MODE ?? 'live').toLowerCase();
+  if (val === 'record') return 'record';
+  if (val === 'replay') return 'replay';
+  return 'live';
+}
+
+/**
+ * Playwright `notFound` behaviour for replay, from HAR_NOT_FOUND.
+ */
+export function getHarNotFound(): 'abort' | 'fallback' {
+  return String(process.env.HAR_NOT_FOUND ?? 'fail').toLowerCase() === 'passthrough' ? 'fallback' : 'abort';
+}
+
+/**
+ * HAR file of a feature.
+ *
+ * @param featureUri - Feature path relative to the project, e.g. 'features/saucedemo/saucedemo.feature'
+ * @param dir - HAR directory (default: HAR_RECORD_DIR in record mode, else HARS_DIR)
+ */
+export function harPathFor(featureUri: string, dir = getNetworkMode() === 'record' ? HAR_RECORD_DIR : HARS_DIR): string {
+  const rel = featureUri.replace(/\\/g, '/').replace(/^features\//, '').replace(/\.feature$/, '');
+  return path.join(dir, `${rel || 'default'}.har`);
+}
+
+/**
+ * Temporary file a single context records into before merging.
+ */
+export function harPartPath(harPath: string): string {
+  return `${harPath}.${process.pid}-${Date.now()}.part`;
+}
+
+/**
+ * Merge a recorded part into the feature HAR and delete the part.
+ *
+ * Entries already present (same method and URL) are replaced by the newer recording.
+ */
+export function mergeHar(partPath: string, harPath: string): void {
+  if (!fs.existsSync(partPath)) return;
+  const part = JSON.parse(fs.readFileSync(partPath, 'utf8'));
+  fs.unlinkSync(partPath);
+
+  if (!fs.existsSync(harPath)) {
+    fs.mkdirSync(path.dirname(harPath), { recursive: true });
+    fs.writeFileSync(harPath, JSON.stringify(part, null, 2));
+    return;
+  }
+
+  const har = JSON.parse(fs.readFileSync(harPath, 'utf8'));
+  const key = (e: any) => `${e.request?.method} ${e.request?.url}`;
+  const incoming = new Set<string>(part.log.entries.map(key));
+  har.log.entries = [...har.log.entries.filter((e: any) => !incoming.has(key(e))), ...part.log.entries];
+  fs.writeFileSync(harPath, JSON.stringify(har, null, 2));
+}
+
+function harFiles(dir: string): string[] {
+  if (!fs.existsSync(dir)) return [];
+  return fs.readdirSync(dir, { withFileTypes: true }).flatMap((entry) => {
+    const file = path.join(dir, entry.name);
+    if (entry.isDirectory()) return harFiles(file);
+    return entry.name.endsWith('.har') ? [file] : [];
+  });
+}
+
+/**
+ * Merge the HARs recorded by child runs into `hars/`, one child after the
+ * other, and delete them.
+ *
+ * @param dirs - The child runs' `hars/` directories
+ */
+export function mergeRecordedHars(dirs: string[]): void {
+  for (const dir of dirs) {
+    for (const file of harFiles(dir)) mergeHar(file, path.join(HARS_DIR, path.relative(dir, file)));
+  }
+}
@@ -1,40 +1,113 @@
-import { After } from '@cucumber/cucumber';
+import { Before, After, BeforeAll, AfterAll, BeforeStep, AfterStep, Status } from '@cucumber/cucumber';
 import fs from 'node:fs';
 import path from 'node:path';
-import { getRecordingFile } from './recording';
+import { getRecordingPolicy, getRecordingMode, startRecording, finishRecording } from './recording';
+import { getTracePolicy, shouldKeepTrace, stopTrace } from './tracing';
+import { takeLastFailure, type E2EError } from './errors';
+import { toLocator } from './selector';
+import { startScenarioTimeline, setTimelineStep, takeStepActions, renderTimelineHtml, saveScenarioTimeline } from './timeline';
 
-import { page as sessionPage } from '@/session';
-import { closeBrowser } from '@/playwright';
+import { type PlaywrightWorld } from '@/world';
+import { enterFeature, releaseBrowser } from '@/lifecycle';
+import { addRunMetadata, setRunMetadata } from '@/metadata';
+import { getEnvironment } from '@/environment';
+import { ATTEMPTS_MEDIA_TYPE, attemptCount, isFlaky, recordAttempt } from '@/retry';
+import { outputPath } from '@/output';
 
-After(async function (scenario) {
+BeforeAll(function () {
+  const env = getEnvironment();
+  setRunMetadata('Started', new Date().toISOString(), false);
+  setRunMetadata('Parallel', process.env.CUCUMBER_TOTAL_WORKERS ? `${process.env.CUCUMBER_TOTAL_WORKERS} workers` : 'Serial', false);
+  addRunMetadata('Test Environment', env.name);
+  for (const [key, value] of Object.entries(env.metadata)) {
+    if (value) setRunMetadata(key, String(value));
+  }
+});
+
+Before(async function (this: PlaywrightWorld, scenario) {
+  takeLastFailure(); // forget errors raised (and handled) by earlier scenarios
+  this.attempt = attemptCount(scenario.pickle.id);
+  this.scenarioName = scenario.pickle.name;
+  this.featureUri = scenario.pickle.uri;
+  this.tags = scenario.pickle.tags.map((t) => t.name);
+  this.recordingPolicy = getRecordingPolicy(this.tags);
+  startScenarioTimeline();
+  await enterFeature(scenario.pickle.uri);
+
+  if (this.recordingPolicy !== 'off' && getRecordingMode() === 'ffmpeg') {
+    startRecording(scenario.pickle.name);
+  }
+});
+
+BeforeStep(function (this: PlaywrightWorld, { pickleStep }) {
+  this.stepText = pickleStep.text;
+  setTimelineStep(pickleStep.text);
+});
+
+// Collapsible table of the helper calls made by the step
+AfterStep(function (this: PlaywrightWorld) {
+  const actions = takeStepActions();
+  if (actions.length) this.attach(renderTimelineHtml(actions), 'text/html');
+});
+
+After(async function (this: PlaywrightWorld, scenario) {
+  // Grab the video handle now: the file is only complete once the context is closed
+  const video = this.hasPage ? this.page.video() : null;
+  const failed = scenario.result?.status === Status.FAILED;
+  // Files kept for this attempt, listed with the other attempts if the scenario is retried
+  const artifacts: string[] = [];
   try {
+    // Failure context from the typed error that failed the scenario, if any
+    const failure = takeLastFailure();
+    if (failed && failure && scenario.result?.message?.includes(failure.message.split('\n')[0])) {
+      await attachFailureContext(this, failure);
+    }
+
     // Playwright screenshot
-    const activePage = sessionPage;
-    if (activePage) {
+    if (this.hasPage) {
+      const activePage = this.page;
       try {
-        const dir = path.join(process.cwd(), 'screenshots');
+        const dir = outputPath('screenshots');
         if (!fs.existsSync(dir)) fs.mkdirSync(dir, { recursive: true });
         const safe = scenario.pickle.name.replace(/[^a-z0-9]/gi, '_');
         const ts = new Date().toISOString().replace(/[:.]/g, '-');
-        const filePath = path.join(dir, `${safe}-${ts}.png`);
+        const filePath = path.join(dir, `${safe}-attempt${this.attempt + 1}-${ts}.png`);
 
         const screenshot = await activePage.screenshot({ path: filePath });
+        artifacts.push(path.relative(process.cwd(), filePath));
         this.attach(screenshot.toString('base64'), 'base64:image/png');
       } catch (e) {
         console.error('Failed to take screenshot:', e);
       }
     }
 
+    // Playwright trace (must be stopped before the context closes)
+    if (this.hasPage && this.tracing) {
+      try {
+        const keep = shouldKeepTrace(getTracePolicy(), failed);
+        const tracePath = await stopTrace(this.page, scenario.pickle.name, keep, this.attempt);
+        if (tracePath) {
+          const rel = path.relative(process.cwd(), tracePath);
+          artifacts.push(rel);
+          this.attach(`Trace: ${rel}\nOpen with: npx playwright show-trace ${rel}`, 'text/plain');
+          this.attach(`<a href="${rel}">Download trace</a> &mdash; open with <code>npx playwright show-trace ${rel}</code>`, 'text/html');
+        }
+      } catch (e) {
+        console.error('Failed to save trace:', e);
+      }
+    }
+
     // Selenium driver screenshot (legacy/fallback)
     if (this.driver) {
-      const dir = path.join(process.cwd(), 'screenshots');
+      const dir = outputPath('screenshots');
       if (!fs.existsSync(dir)) fs.mkdirSync(dir, { recursive: true });
       const safe = scenario.pickle.name.replace(/[^a-z0-9]/gi, '_');
       const ts = new Date().toISOString().replace(/[:.]/g, '-');
-      const filePath = path.join(dir, `${safe}-${ts}.png`);
+      const filePath = path.join(dir, `${safe}-attempt${this.attempt + 1}-${ts}.png`);
 
       const base64 = await this.driver.takeScreenshot();
       fs.writeFileSync(filePath, base64, 'base64');
+      artifacts.push(path.relative(process.cwd(), filePath));
 
       if (this.attach) {
         // Attach inline image so cucumber-html-reporter can render it
@@ -42,24 +115,87 @@ After(async function (scenario) {
         this.attach(buffer, 'image/png');
       }
     }
-
-    // Attach recording link if present (recording module stores the path by scenario name)
-    const recordingPath = getRecordingFile?.(scenario.pickle.name);
-    if (recordingPath && this.attach) {
-      const rel = path.relative(process.cwd(), recordingPath);
-      this.attach(`Recording: ${rel}`, 'text/plain');
-      // Also provide clickable HTML link
-      this.attach(`<a href="${rel}">Download recording</a>`, 'text/html');
-    }
   } catch (err) {
     console.error('[Hooks After] Error attaching artifacts:', err);
   } finally {
     try {
-      if (sessionPage) {
-          await closeBrowser(sessionPage);
-      }
+      await this.closeBrowser();
     } catch (err) {
       console.error('Failed to quit WebDriver', err);
     }
+    try {
+      await this.disposeApi();
+    } catch (err) {
+      console.error('Failed to dispose API context', err);
+    }
   }
-});
\ No newline at end of file
+
+  // Keep or discard the recording according to the scenario's policy
+  try {
+    const recordingPath = await finishRecording(scenario.pickle.name, this.recordingPolicy, failed, video);
+    if (recordingPath) {
+      const rel = path.relative(process.cwd(), recordingPath);
+      const type = rel.endsWith('.webm') ? 'video/webm' : 'video/mp4';
+      artifacts.push(rel);
+      this.attach(`Recording: ${rel}`, 'text/plain');
+      // Playable inline video for cucumber-html-reporter
+      this.attach(`<video controls width="640"><source src="${rel}" type="${type}"/><a href="${rel}">Download recording</a></video>`, 'text/html');
+    }
+  } catch (err) {
+    console.error('[Hooks After] Error finishing recording:', err);
+  }
+
+  // Attempt bookkeeping: the last attempt of a retried scenario lists all of them
+  const attempts = recordAttempt(scenario.pickle.id, {
+    attempt: this.attempt + 1,
+    status: failed ? 'failed' : scenario.result?.status === Status.PASSED ? 'passed' : 'skipped',
+    error: scenario.result?.message?.split('\n')[0],
+    artifacts,
+  });
+  if (!scenario.willBeRetried && attempts.length > 1) {
+    this.attach(JSON.stringify(attempts), ATTEMPTS_MEDIA_TYPE);
+    if (isFlaky(attempts)) this.attach(`Flaky: passed on attempt ${attempts.length} after ${attempts.length - 1} failed`, 'text/plain');
+  }
+
+  try {
+    saveScenarioTimeline({
+      feature: scenario.pickle.uri,
+      scenario: scenario.pickle.name,
+      attempt: this.attempt,
+      status: scenario.result?.status ?? Status.UNKNOWN,
+    });
+  } catch (err) {
+    console.error('[Hooks After] Error saving action timeline:', err);
+  }
+});
+
+/**
+ * Attach a readable summary, the DOM and a screenshot of the failing element.
+ */
+async function attachFailureContext(world: PlaywrightWorld, failure: E2EError): Promise<void> {
+  world.attach(failure.summary(), 'text/plain');
+  if (!world.hasPage) return;
+  const page = world.page;
+
+  try {
+    world.attach(`DOM snapshot (${page.url()}):\n${await page.content()}`, 'text/plain');
+  } catch (e) {
+    console.error('Failed to capture DOM snapshot:', e);
+  }
+
+  const { selector } = failure.context;
+  if (!selector) return;
+  try {
+    const target = toLocator(page, selector).first();
+    if (await target.isVisible()) {
+      world.attach(await target.screenshot({ timeout: 2000 }), 'image/png');
+    }
+  } catch (e) {
+    console.error('Failed to capture target screenshot:', e);
+  }
+}
+
+AfterAll(async function () {
+  setRunMetadata('Finished', new Date().toISOString());
+  await releaseBrowser();
+});
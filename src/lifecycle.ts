@@ -0,0 +1,69 @@
+/**
+ * Browser lifecycle management
+ *
+ * Decides how long a launched browser lives. Every scenario always gets a fresh
+ * BrowserContext and page (see PlaywrightWorld); only the browser process is
+ * shared, so scenarios stay isolated without paying the startup cost each time.
+ *
+ * @remarks
+ * Environment variables:
+ * - BROWSER_REUSE: How long a browser is reused
+ *   - 'worker' (default): one browser per Cucumber worker, closed in AfterAll
+ *   - 'feature': one browser per feature file
+ *   - 'scenario': a new browser for every scenario
+ */
+import { type Browser } from 'playwright';
+import { launchBrowser } from '@/playwright';
+
+export type BrowserReuse = 'scenario' | 'feature' | 'worker';
+
+let sharedBrowser: Browser | undefined;
+let sharedFeature: string | undefined;
+
+export function getBrowserReuse(): BrowserReuse {
+  const val = String(process.env.BROWSER_REUSE ?? 'worker').toLowerCase();
+  if (val === 'scenario') return 'scenario';
+  if (val === 'feature') return 'feature';
+  return 'worker';
+}
+
+/**
+ * Return the browser a scenario of `featureUri` should open its context in.
+ *
+ * @param featureUri - Feature file the scenario belongs to
+ * @returns The shared browser, or undefined when every scenario launches its own
+ */
+export async function acquireBrowser(featureUri: string): Promise<Browser | undefined> {
+  const reuse = getBrowserReuse();
+  if (reuse === 'scenario') return undefined;
+
+  if (reuse === 'feature' && sharedFeature !== featureUri) {
+    await releaseBrowser();
+  }
+  if (!sharedBrowser || !sharedBrowser.isConnected()) {
+    sharedBrowser = await launchBrowser();
+  }
+  sharedFeature = featureUri;
+  return sharedBrowser;
+}
+
+/**
+ * Close the shared browser when the next scenario belongs to another feature.
+ */
+export async function enterFeature(featureUri: string): Promise<void> {
+  if (getBrowserReuse() === 'feature' && sharedFeature && sharedFeature !== featureUri) {
+    await releaseBrowser();
+  }
+}
+
+/**
+ * Close the shared browser, if any.
+ */
+export async function releaseBrowser(): Promise<void> {
+  const browser = sharedBrowser;
+  sharedBrowser = undefined;
+  sharedFeature = undefined;
+  try {
+    await browser?.close();
+  } catch { }
+}
@@ -0,0 +1,134 @@
+/**
+ * Run metadata store
+ *
+ * Collects key/value facts about the current run (browser, profiles used,
+ * start and end times, ...) under `run-metadata/` so every report shows what
+ * actually ran. Each process (the coordinator or a parallel worker) writes its
+ * own file there, and readRunMetadata() merges the latest run's files (see
+ * src/output.ts); files of a previous run are discarded on the first write.
+ * Facts about the machine (OS, Node, git) are computed by
+ * collectSystemMetadata() when the reports are generated.
+ *
+ * @remarks
+ * Environment variables:
+ * - GIT_COMMIT / GIT_BRANCH: Used when the git CLI is not available (e.g. in a container)
+ * - CI: Any value marks the run as executed on CI
+ */
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { execSync } from 'child_process';
+import { currentRunId, outputPath, readProcessFile, readRunFiles } from '@/output';
+
+export const RUN_METADATA_DIR = outputPath('run-metadata');
+
+interface RunMetadataFile {
+  runId: number;
+  values: Record<string, string>;
+}
+
+/**
+ * Merge the values of several processes. Differing values are listed once
+ * each, comma-separated; the earliest Started and the latest Finished are kept.
+ */
+function mergeValues(files: RunMetadataFile[]): Record<string, string> {
+  const merged: Record<string, string[]> = {};
+  for (const file of files) {
+    for (const [key, value] of Object.entries(file.values ?? {})) {
+      const values = (merged[key] ??= []);
+      for (const part of value.split(', ').filter(Boolean)) if (!values.includes(part)) values.push(part);
+    }
+  }
+  const values = Object.fromEntries(Object.entries(merged).map(([key, list]) => [key, list.join(', ')]));
+  if (merged['Started']) values['Started'] = [...merged['Started']].sort()[0];
+  if (merged['Finished']) values['Finished'] = [...merged['Finished']].sort().reverse()[0];
+  return values;
+}
+
+/** Change this process's values */
+function update(fn: (values: Record<string, string>) => void): void {
+  const { file, contents } = readProcessFile<RunMetadataFile>(RUN_METADATA_DIR);
+  const saved = contents ?? { runId: currentRunId(), values: {} };
+  fn(saved.values);
+  fs.writeFileSync(file, JSON.stringify(saved, null, 2));
+}
+
+/**
+ * Read the metadata recorded by the current (or most recent) run.
+ *
+ * @param dir - Metadata directory (default: this run's)
+ */
+export function readRunMetadata(dir = RUN_METADATA_DIR): Record<string, string> {
+  return mergeValues(readRunFiles<RunMetadataFile>(dir));
+}
+
+/**
+ * Id of the run the metadata in `dir` was recorded by (see currentRunId() in
+ * src/output.ts), or undefined when no run recorded any.
+ *
+ * @param dir - Metadata directory (default: this run's)
+ */
+export function readRunId(dir = RUN_METADATA_DIR): number | undefined {
+  return readRunFiles<RunMetadataFile>(dir).pop()?.runId;
+}
+
+/**
+ * Add a value to a metadata key. Repeated values are listed once, comma-separated.
+ *
+ * @example
+ * ```ts
+ * addRunMetadata('Profile', 'mobile-iphone13');
+ * addRunMetadata('Profile', 'locale-de'); // Profile: 'mobile-iphone13, locale-de'
+ * ```
+ */
+export function addRunMetadata(key: string, value: string): void {
+  update((values) => {
+    const list = (values[key] ?? '').split(', ').filter(Boolean);
+    if (!list.includes(value)) list.push(value);
+    values[key] = list.join(', ');
+  });
+}
+
+/**
+ * Set a metadata key to a single value.
+ *
+ * @param overwrite - false keeps a value already recorded by this process
+ */
+export function setRunMetadata(key: string, value: string, overwrite = true): void {
+  update((values) => {
+    if (overwrite || values[key] === undefined) values[key] = value;
+  });
+}
+
+/**
+ * Combine the metadata of child runs (browser matrix, shards) into this run's.
+ *
+ * @param dirs - The child runs' output directories
+ */
+export function mergeRunMetadata(dirs: string[]): void {
+  const files = dirs.map((dir) => ({ runId: 0, values: readRunMetadata(path.join(dir, path.basename(RUN_METADATA_DIR))) }));
+  const merged = mergeValues(files);
+  update((values) => Object.assign(values, merged));
+}
+
+function git(args: string): string | undefined {
+  try {
+    return execSync(`git ${args}`, { stdio: ['ignore', 'pipe', 'ignore'], timeout: 5000 }).toString().trim() || undefined;
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * Facts about the machine and checkout the reports are generated on.
+ */
+export function collectSystemMetadata(): Record<string, string> {
+  const values: Record<string, string | undefined> = {
+    'OS': `${os.type()} ${os.release()} (${os.arch()})`,
+    'Node': process.version,
+    'Git Commit': git('rev-parse --short HEAD') ?? process.env.GIT_COMMIT,
+    'Git Branch': git('rev-parse --abbrev-ref HEAD') ?? process.env.GIT_BRANCH,
+    'Executed': process.env.CI ? 'CI' : 'Local',
+  };
+  return Object.fromEntries(Object.entries(values).filter((e): e is [string, string] => !!e[1]));
+}
@@ -0,0 +1,221 @@
+/**
+ * Network interception and response mocking
+ *
+ * Route helpers for testing empty, error and slow-backend states without a
+ * real backend. Patterns starting with `/` match the URL path on any host
+ * (`/api/items`, `/api/items/*`); anything else is a Playwright URL glob
+ * (`**\/api/**`). A pattern may be prefixed with an HTTP method
+ * (`GET /api/items`) to only match that method.
+ *
+ * Fixtures live in `fixtures/`. A JSON fixture is either a response descriptor
+ * (`{ "status": 500, "headers": {...}, "body": {...} }`) or, when it has no
+ * descriptor keys, the JSON body itself. Other files are served as-is with a
+ * content type derived from their extension.
+ *
+ * @example
+ * ```ts
+ * await mockRoute(page, 'GET /api/items', 'items-empty.json');
+ * await delayRoute(page, '/api/cart', 3000);
+ * await abortRequests(page, '**\/*.png');
+ * await modifyResponse(page, '/api/user', (body) => ({ ...body, premium: true }));
+ * ```
+ */
+import { type Page, type Route, type Request } from 'playwright';
+import fs from 'fs';
+import path from 'path';
+
+export const FIXTURES_DIR = path.join(process.cwd(), 'fixtures');
+
+/** A mocked response */
+export interface Fixture {
+  status?: number;
+  headers?: Record<string, string>;
+  contentType?: string;
+  /** Object/array bodies are sent as JSON, strings and buffers as-is */
+  body?: unknown;
+}
+
+const DESCRIPTOR_KEYS = ['status', 'headers', 'contentType', 'body'];
+
+const CONTENT_TYPES: Record<string, string> = {
+  '.json': 'application/json',
+  '.html': 'text/html',
+  '.txt': 'text/plain',
+  '.xml': 'application/xml',
+  '.csv': 'text/csv',
+  '.js': 'application/javascript',
+  '.css': 'text/css',
+  '.png': 'image/png',
+  '.jpg': 'image/jpeg',
+  '.svg': 'image/svg+xml',
+};
+
+interface RouteSpec {
+  method?: string;
+  url: string | ((url: URL) => boolean);
+}
+
+function globToRegExp(glob: string): RegExp {
+  let re = '';
+  for (let i = 0; i < glob.length; i++) {
+    const ch = glob[i];
+    if (ch === '*') {
+      if (glob[i + 1] === '*') {
+        re += '.*';
+        i++;
+      } else {
+        re += '[^/]*';
+      }
+    } else if (ch === '?') {
+      re += '[^/]';
+    } else {
+      re += ch.replace(/[.+^${}()|[\]\\]/g, '\\$&');
+    }
+  }
+  return new RegExp(`^${re}$`);
+}
+
+function parsePattern(pattern: string): RouteSpec {
+  const m = pattern.trim().match(/^(GET|POST|PUT|PATCH|DELETE|HEAD|OPTIONS)\s+(.+)$/i);
+  const method = m ? m[1].toUpperCase() : undefined;
+  const target = m ? m[2].trim() : pattern.trim();
+  if (target.startsWith('/')) {
+    const re = globToRegExp(target);
+    return { method, url: (url: URL) => re.test(url.pathname) };
+  }
+  return { method, url: target };
+}
+
+async function onRoute(page: Page, pattern: string, handler: (route: Route, request: Request) => Promise<void>): Promise<void> {
+  const spec = parsePattern(pattern);
+  await page.route(spec.url, async (route, request) => {
+    if (spec.method && request.method() !== spec.method) {
+      await route.fallback();
+      return;
+    }
+    await handler(route, request);
+  });
+}
+
+/**
+ * Load a fixture from the fixtures directory.
+ *
+ * @param name - File name relative to `fixtures/`
+ * @throws Error if the fixture file does not exist
+ */
+export function loadFixture(name: string): Fixture {
+  const file = path.join(FIXTURES_DIR, name);
+  if (!fs.existsSync(file)) throw new Error(`Fixture not found: ${path.relative(process.cwd(), file)}`);
+  const ext = path.extname(file).toLowerCase();
+
+  if (ext === '.json') {
+    const parsed = JSON.parse(fs.readFileSync(file, 'utf8'));
+    const isDescriptor =
+      parsed && typeof parsed === 'object' && !Array.isArray(parsed) &&
+      Object.keys(parsed).length > 0 && Object.keys(parsed).every((k) => DESCRIPTOR_KEYS.includes(k));
+    return isDescriptor ? parsed : { body: parsed };
+  }
+  return { body: fs.readFileSync(file), contentType: CONTENT_TYPES[ext] ?? 'application/octet-stream' };
+}
+
+async function fulfill(route: Route, fixture: Fixture): Promise<void> {
+  const { status = 200, headers, contentType, body } = fixture;
+  if (body !== undefined && typeof body !== 'string' && !Buffer.isBuffer(body)) {
+    await route.fulfill({ status, headers, contentType, json: body });
+    return;
+  }
+  await route.fulfill({ status, headers, contentType, body: body as string | Buffer | undefined });
+}
+
+/**
+ * Answer matching requests with a fixture instead of the network.
+ *
+ * @param page - The Page instance
+ * @param urlPattern - Route pattern (optionally prefixed with an HTTP method)
+ * @param fixture - Fixture file name under `fixtures/`, or an inline fixture
+ *
+ * @example
+ * ```ts
+ * await mockRoute(page, 'GET /api/items', 'items-empty.json');
+ * await mockRoute(page, 'POST /api/login', { status: 401, body: { error: 'Invalid' } });
+ * ```
+ */
+export async function mockRoute(page: Page, urlPattern: string, fixture: string | Fixture): Promise<void> {
+  const resolved = typeof fixture === 'string' ? loadFixture(fixture) : fixture;
+  await onRoute(page, urlPattern, (route) => fulfill(route, resolved));
+}
+
+/**
+ * Abort matching requests, as if the network failed.
+ *
+ * @param page - The Page instance
+ * @param pattern - Route pattern (optionally prefixed with an HTTP method)
+ * @param errorCode - Playwright abort error code (default: 'failed')
+ *
+ * @example
+ * ```ts
+ * await abortRequests(page, '**\/analytics/**');
+ * ```
+ */
+export async function abortRequests(page: Page, pattern: string, errorCode = 'failed'): Promise<void> {
+  await onRoute(page, pattern, (route) => route.abort(errorCode));
+}
+
+/**
+ * Delay matching requests, then let them continue (to other mocks or the network).
+ *
+ * @param page - The Page instance
+ * @param pattern - Route pattern (optionally prefixed with an HTTP method)
+ * @param ms - Delay in milliseconds
+ *
+ * @example
+ * ```ts
+ * await delayRoute(page, 'GET /api/items', 5000); // slow backend
+ * ```
+ */
+export async function delayRoute(page: Page, pattern: string, ms: number): Promise<void> {
+  await onRoute(page, pattern, async (route) => {
+    await new Promise((r) => setTimeout(r, ms));
+    await route.fallback();
+  });
+}
+
+/**
+ * Fetch the real response and rewrite its body before the page sees it.
+ *
+ * @param page - The Page instance
+ * @param pattern - Route pattern (optionally prefixed with an HTTP method)
+ * @param modifier - Receives the parsed JSON body (or text when not JSON) and
+ *   the status, and returns the new body
+ *
+ * @example
+ * ```ts
+ * await modifyResponse(page, 'GET /api/items', (items) => items.slice(0, 1));
+ * ```
+ */
+export async function modifyResponse(
+  page: Page,
+  pattern: string,
+  modifier: (body: any, status: number) => unknown
+): Promise<void> {
+  await onRoute(page, pattern, async (route) => {
+    const response = await route.fetch();
+    const text = await response.text();
+    let body: unknown = text;
+    try {
+      body = JSON.parse(text);
+    } catch { }
+
+    const result = await modifier(body, response.status());
+    const headers = response.headers();
+    delete headers['content-length'];
+    await fulfill(route, { status: response.status(), headers, body: result });
+  });
+}
+
+/**
+ * Remove every route registered on the page.
+ */
+export async function clearRoutes(page: Page): Promise<void> {
+  await page.unrouteAll({ behavior: 'ignoreErrors' });
+}
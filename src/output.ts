@@ -0,0 +1,92 @@
+/**
+ * Run output directory
+ *
+ * Screenshots, recordings, traces, visual diffs, the action timeline, the run
+ * metadata and the Cucumber JSON report are written under the project root.
+ * Child runs started side by side (browser matrix, shards) each get their own
+ * directory through E2E_OUTPUT_DIR so they don't overwrite each other's files;
+ * the coordinating process merges them afterwards.
+ *
+ * Files that every process of a run adds to (run metadata, the action
+ * timeline) are kept as one file per process in a directory, tagged with the
+ * run they belong to, and merged when they are read; parallel workers never
+ * write the same file.
+ *
+ * @remarks
+ * Environment variables:
+ * - E2E_OUTPUT_DIR: Output directory of this run, relative to the project root (default: the project root)
+ * - E2E_RUN_ID: Run id, set by the runner CLI so its own files and those of the cucumber-js run it starts belong to one run
+ */
+import fs from 'fs';
+import path from 'path';
+
+export const OUTPUT_DIR = path.resolve(process.env.E2E_OUTPUT_DIR ?? '.');
+
+/**
+ * Path of a file or directory in this run's output directory.
+ *
+ * @example
+ * ```ts
+ * outputPath('screenshots'); // <root>/screenshots, or <E2E_OUTPUT_DIR>/screenshots
+ * ```
+ */
+export function outputPath(...segments: string[]): string {
+  return path.join(OUTPUT_DIR, ...segments);
+}
+
+/**
+ * Id shared by every process of one run: the coordinator's pid.
+ */
+export function currentRunId(): number {
+  if (process.env.E2E_RUN_ID) return Number(process.env.E2E_RUN_ID);
+  // Parallel workers are children of the coordinator; a serial run is the coordinator itself
+  return process.env.CUCUMBER_WORKER_ID !== undefined ? process.ppid : process.pid;
+}
+
+interface RunFile {
+  runId: number;
+}
+
+function readJson<T>(file: string): T | undefined {
+  try {
+    return JSON.parse(fs.readFileSync(file, 'utf8'));
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * This process's own file in a per-process directory, and its contents when
+ * it belongs to the current run. Files of earlier runs in the directory are
+ * deleted the first time.
+ */
+export function readProcessFile<T extends RunFile>(dir: string): { file: string; contents?: T } {
+  const file = path.join(dir, `${process.pid}.json`);
+  const runId = currentRunId();
+  const contents = readJson<T>(file);
+  if (contents?.runId === runId) return { file, contents };
+  fs.mkdirSync(dir, { recursive: true });
+  for (const name of fs.readdirSync(dir).filter((n) => n.endsWith('.json'))) {
+    // Unreadable files may be half written by another worker of this run: keep them
+    const other = readJson<RunFile>(path.join(dir, name));
+    if (other && other.runId !== runId) fs.rmSync(path.join(dir, name), { force: true });
+  }
+  return { file };
+}
+
+/**
+ * The per-process files of the most recent run in a directory (the run of
+ * the newest file), oldest first.
+ */
+export function readRunFiles<T extends RunFile>(dir: string): T[] {
+  if (!fs.existsSync(dir)) return [];
+  const files = fs
+    .readdirSync(dir)
+    .filter((n) => n.endsWith('.json'))
+    .map((n) => ({ path: path.join(dir, n), mtimeMs: fs.statSync(path.join(dir, n)).mtimeMs }))
+    .sort((a, b) => a.mtimeMs - b.mtimeMs)
+    .map((f) => readJson<T>(f.path))
+    .filter((f): f is T => typeof f?.runId === 'number');
+  const latest = files[files.length - 1]?.runId;
+  return files.filter((f) => f.runId === latest);
+}
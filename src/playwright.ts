@@ -18,14 +18,25 @@
  * Environment variables:
  * - E2E_BROWSER / PW_BROWSER / PLAYWRIGHT_BROWSER: Browser engine ('chromium', 'firefox', 'webkit')
  * - HEADLESS: Run headless mode ('true' or 'false', default: 'true')
+ * - TEST_ENV: Environment config used to resolve relative URLs (see src/environment.ts)
+ * - TRACE: Playwright tracing policy for new contexts (see src/tracing.ts)
+ * - NETWORK_MODE: 'live', 'record' or 'replay' network traffic via HAR files (see src/har.ts)
  */
-import { chromium, firefox, webkit, type Browser, type BrowserContext, type Page } from 'playwright';
+import { chromium, firefox, webkit, type Browser, type BrowserContext, type BrowserContextOptions, type Page, type Locator } from 'playwright';
 import fs from 'fs';
 import path from 'path';
+import { toLocator, tryNormalizeSelector } from '@/selector';
+import { getEnvironment, resolveUrl } from '@/environment';
+import { getTracePolicy, shouldTrace, startTrace } from '@/tracing';
+import { getNetworkMode, getHarNotFound, harPartPath, harPathFor, mergeHar } from '@/har';
+import { toE2EError } from '@/errors';
+import { logAction } from '@/timeline';
+import { outputPath } from '@/output';
+import { collectResults, toJUnitXml, toMarkdown, toTap, type ReportSources, type RunReport } from '@/report';
 
-type Engine = 'chromium' | 'firefox' | 'webkit';
+export type Engine = 'chromium' | 'firefox' | 'webkit';
 
-function getBrowserEngine(): Engine {
+export function getBrowserEngine(): Engine {
   const raw =
     (process.env.E2E_BROWSER ??
       process.env.PW_BROWSER ??
@@ -37,6 +48,10 @@ function getBrowserEngine(): Engine {
   return 'chromium';
 }
 
+export function isHeadless(): boolean {
+  return String(process.env.HEADLESS ?? 'false') !== 'false';
+}
+
 function ensureDir(dirPath: string) {
   if (!fs.existsSync(dirPath)) fs.mkdirSync(dirPath, { recursive: true });
 }
@@ -60,26 +75,6 @@ function readJsonArray(filePath: string): any[] {
   }
 }
 
-function splitSelector(selector: string): [string, string] {
-  return selector.includes(':') ? (selector.split(':', 2) as [string, string]) : ['css', selector];
-}
-
-function toCssSelector(prefix: string, rawValue: string): string {
-  switch (prefix) {
-    case 'id':
-      return `#${rawValue}`;
-    case 'name':
-      return `[name="${rawValue}"]`;
-    case 'css':
-      return rawValue;
-    case 'input':
-      // Prefer input[name="..."]; fallback handled in waitUntilVisible if needed
-      return `input[name="${rawValue}"]`;
-    default:
-      return rawValue; // treat original as css
-  }
-}
-
 // ============================================================================
 // SELECTOR NOTATION
 // ============================================================================
@@ -91,45 +86,135 @@ function toCssSelector(prefix: string, rawValue: string): string {
  * - `'name:myName'` → `[name="myName"]` (element by name attribute)
  * - `'input:myName'` → `input[name="myName"]` (input by name, tries id fallback)
  * - `'css:.myClass'` → `.myClass` (CSS selector)
+ * - `'text:Login'` / `'role:button[name=Login]'` / `'label:Email'` /
+ *   `'placeholder:Search'` / `'testid:submit'` / `'xpath://div'`
+ * - `'css:form >> text:Submit >> nth=0'` (chained scopes)
  * - `'button'` → `button` (plain CSS, no prefix)
  *
  * @remarks
  * All interaction methods automatically wait for the element to be visible
- * before performing actions. Default timeout is 10 seconds.
+ * before performing actions. Default timeout is 10 seconds. When a selector
+ * matches several elements, actions use the first one. The full grammar is
+ * documented in src/selector.ts.
  */
 
+/**
+ * Run a helper body, logging it to the action timeline (see src/timeline.ts)
+ * and converting any failure into a typed error carrying the action,
+ * selector, URL and elapsed time (see src/errors.ts). Pass the value being
+ * entered along with the selector so the timeline can show it; actions
+ * without an element pass what they act on (a URL, scroll offsets) as the value.
+ */
+async function track<T>(
+  page: Page,
+  action: string,
+  target: string | { selector?: string; value: string } | undefined,
+  fn: () => Promise<T>
+): Promise<T> {
+  const { selector, value } = typeof target === 'object' ? target : { selector: target, value: undefined };
+  return logAction(page, { action, selector, value }, async () => {
+    const start = Date.now();
+    try {
+      return await fn();
+    } catch (e) {
+      throw toE2EError(e, {
+        action,
+        selector,
+        normalizedSelector: selector === undefined ? undefined : tryNormalizeSelector(selector),
+        url: page.url(),
+        elapsedMs: Date.now() - start,
+      });
+    }
+  });
+}
+
+/**
+ * Resolve a selector to its first match and wait until it is visible
+ */
+async function visibleLocator(page: Page, selector: string, timeout = 10000): Promise<Locator> {
+  const locator = toLocator(page, selector).first();
+  await locator.waitFor({ state: 'visible', timeout });
+  return locator;
+}
+
 // ============================================================================
 // NAVIGATION
 // ============================================================================
 
 /**
- * Launch a new browser instance and create a page.
+ * Launch a browser process for the configured engine.
  *
  * @example
  * ```ts
- * const page = await openBrowser();
+ * const browser = await launchBrowser();
+ * const page = await openBrowser(browser);
  * ```
  *
- * @returns A Playwright Page instance with browser/context metadata attached
- *
  * @remarks
  * - Detects browser engine from environment variables (defaults to chromium)
  * - Uses headless mode unless HEADLESS=false is set
- * - Sets default viewport to 1366x768
- * - Stores browser/context metadata for proper cleanup
  */
-export async function openBrowser(): Promise<Page> {
+export async function launchBrowser(): Promise<Browser> {
   const engine = getBrowserEngine();
-  const headless = String(process.env.HEADLESS ?? 'false') !== 'false';
   const launcher = engine === 'firefox' ? firefox : engine === 'webkit' ? webkit : chromium;
+  return launcher.launch({ headless: isHeadless() });
+}
 
-  const browser: Browser = await launcher.launch({ headless });
-  const context: BrowserContext = await browser.newContext();
+/** Options for openBrowser(): context options plus framework switches */
+export interface OpenBrowserOptions extends BrowserContextOptions {
+  /** Start Playwright tracing on the new context (default: whether TRACE traces a first attempt) */
+  trace?: boolean;
+  /** HAR file recorded or replayed when NETWORK_MODE is 'record' or 'replay' (default: hars/default.har) */
+  har?: string;
+}
+
+/**
+ * Create a fresh browser context and page.
+ *
+ * @param browser - Optional shared browser; when omitted a new browser is launched
+ * @param options - Context options, e.g. from a profile (see src/profiles.ts),
+ *   and whether to start tracing
+ *
+ * @example
+ * ```ts
+ * const page = await openBrowser();        // own browser
+ * const page2 = await openBrowser(shared); // new context on a shared browser
+ * const page3 = await openBrowser(shared, resolveProfile(['@mobile-iphone13']).options);
+ * ```
+ *
+ * @returns A Playwright Page instance with browser/context metadata attached
+ *
+ * @remarks
+ * - Sets default viewport to 1366x768 unless the options define one
+ * - Starts tracing (screenshots, snapshots, sources) when requested; stop it
+ *   with stopTrace() from src/tracing.ts before closing
+ * - NETWORK_MODE=record records the context's traffic and merges it into the
+ *   HAR file on closeBrowser(); NETWORK_MODE=replay serves requests from it
+ * - Stores browser/context metadata for proper cleanup
+ * - A browser launched here is owned by the page and closed by closeBrowser();
+ *   a shared browser passed in is left running
+ */
+export async function openBrowser(browser?: Browser, options: OpenBrowserOptions = {}): Promise<Page> {
+  const { trace = shouldTrace(getTracePolicy()), har = harPathFor(''), ...contextOptions } = options;
+  const networkMode = getNetworkMode();
+  const harPart = networkMode === 'record' ? harPartPath(har) : undefined;
+  if (networkMode === 'replay' && !fs.existsSync(har)) {
+    throw new Error(`No HAR recorded at ${path.relative(process.cwd(), har)}; run once with NETWORK_MODE=record`);
+  }
+
+  const ownsBrowser = !browser;
+  const activeBrowser: Browser = browser ?? (await launchBrowser());
+  const context: BrowserContext = await activeBrowser.newContext({
+    viewport: { width: 1366, height: 768 },
+    ...contextOptions,
+    ...(harPart ? { recordHar: { path: harPart, content: 'embed' as const } } : {}),
+  });
+  if (networkMode === 'replay') {
+    await context.routeFromHAR(har, { notFound: getHarNotFound() });
+  }
   const page: Page = await context.newPage();
-  try {
-    await page.setViewportSize({ width: 1366, height: 768 });
-  } catch { }
-  (page as any).__pwMeta = { browser, context };
+  if (trace) await startTrace(page);
+  (page as any).__pwMeta = { browser: activeBrowser, context, ownsBrowser, har, harPart };
   return page;
 }
 
@@ -144,67 +229,70 @@ export async function openBrowser(): Promise<Page> {
  * ```
  *
  * @remarks
- * Safely closes page, context, and browser. Silently handles errors
- * if resources are already closed.
+ * Safely closes page and context, and the browser too when openBrowser()
+ * launched it. Silently handles errors if resources are already closed.
+ * In NETWORK_MODE=record the recorded traffic is merged into the HAR file.
  */
 export async function closeBrowser(page: Page): Promise<void> {
-  const meta = (page as any).__pwMeta as { browser?: Browser; context?: BrowserContext } | undefined;
+  const meta = (page as any).__pwMeta as
+    | { browser?: Browser; context?: BrowserContext; ownsBrowser?: boolean; har?: string; harPart?: string }
+    | undefined;
   try {
     await page.close();
   } catch { }
   try {
     await meta?.context?.close();
   } catch { }
+  if (meta?.har && meta.harPart) {
+    try {
+      mergeHar(meta.harPart, meta.har);
+    } catch (e) {
+      console.error(`Failed to merge HAR into ${meta.har}:`, e);
+    }
+  }
+  if (meta?.ownsBrowser === false) return;
   try {
     await meta?.browser?.close();
   } catch { }
 }
 
 /**
- * Wait for selector to be visible and return the normalized CSS selector
+ * Wait for selector to be visible and return a locator for the element
  */
-export async function waitUntilVisible(page: Page, selector: string, timeout = 10000): Promise<string> {
-  const [prefix, rawValue] = splitSelector(selector);
-  if (prefix === 'input') {
-    try {
-      const sel = `input[name="${rawValue}"]`;
-      await page.waitForSelector(sel, { state: 'visible', timeout });
-      return sel;
-    } catch {
-      const sel = `input#${rawValue}`;
-      await page.waitForSelector(sel, { state: 'visible', timeout });
-      return sel;
-    }
-  }
-  const css = toCssSelector(prefix, rawValue);
-  await page.waitForSelector(css, { state: 'visible', timeout });
-  return css;
+export async function waitUntilVisible(page: Page, selector: string, timeout = 10000): Promise<Locator> {
+  return track(page, 'waitUntilVisible', selector, () => visibleLocator(page, selector, timeout));
 }
 
 /**
  * Click element after it becomes visible
  */
 export async function click(page: Page, selector: string): Promise<void> {
-  const sel = await waitUntilVisible(page, selector);
-  await page.click(sel);
+  return track(page, 'click', selector, async () => {
+    const el = await visibleLocator(page, selector);
+    await el.click();
+  });
 }
 
 /**
  * Focus element (optional clear)
  */
 export async function focus(page: Page, selector: string, clear = false): Promise<void> {
-  const sel = await waitUntilVisible(page, selector);
-  await page.focus(sel);
-  if (clear) await page.fill(sel, '');
+  return track(page, 'focus', selector, async () => {
+    const el = await visibleLocator(page, selector);
+    await el.focus();
+    if (clear) await el.fill('');
+  });
 }
 
 /**
  * Type into element (clear by default)
  */
 export async function input(page: Page, selector: string, value: string, clear = true): Promise<void> {
-  const sel = await waitUntilVisible(page, selector);
-  if (clear) await page.fill(sel, value);
-  else await page.type(sel, value);
+  return track(page, 'input', { selector, value }, async () => {
+    const el = await visibleLocator(page, selector);
+    if (clear) await el.fill(value);
+    else await el.pressSequentially(value);
+  });
 }
 
 /**
@@ -220,10 +308,14 @@ export async function input(page: Page, selector: string, value: string, clear =
  * ```
  *
  * @remarks
- * Waits for the page 'load' event before returning.
+ * Relative paths resolve against the base URL of the active environment
+ * (see src/environment.ts). Waits for the page 'load' event before returning.
  */
 export async function goTo(page: Page, url: string): Promise<void> {
-  await page.goto(url, { waitUntil: 'load' });
+  const target = resolveUrl(url);
+  return track(page, 'goTo', { value: target }, async () => {
+    await page.goto(target, { waitUntil: 'load' });
+  });
 }
 
 /**
@@ -259,31 +351,40 @@ const PW_KEY_MAP: Record<string, string> = {
  * Press a key on the element
  */
 export async function pressKey(page: Page, selector: string, key: string): Promise<void> {
-  const sel = await waitUntilVisible(page, selector);
-  const mapped = PW_KEY_MAP[key] ?? key;
-  await page.press(sel, mapped);
+  return track(page, 'pressKey', { selector, value: key }, async () => {
+    const el = await visibleLocator(page, selector);
+    const mapped = PW_KEY_MAP[key] ?? key;
+    await el.press(mapped);
+  });
 }
 
 /**
  * Send input without clearing
  */
 export async function sendInput(page: Page, selector: string, value: string): Promise<void> {
-  await input(page, selector, value, false);
+  return track(page, 'sendInput', { selector, value }, async () => {
+    await input(page, selector, value, false);
+  });
 }
 
 /**
  * Submit via Enter key on input
  */
 export async function submitInput(page: Page, selector: string): Promise<void> {
-  const sel = await waitUntilVisible(page, selector);
-  await page.press(sel, 'Enter');
+  return track(page, 'submitInput', selector, async () => {
+    const el = await visibleLocator(page, selector);
+    await el.press('Enter');
+  });
 }
 
 /**
- * Wait until URL equals expected
+ * Wait until URL equals expected (relative paths resolve against the environment base URL)
  */
 export async function waitUntilUrl(page: Page, url: string, timeout = 5000): Promise<void> {
-  await page.waitForURL(url, { timeout });
+  const target = resolveUrl(url);
+  return track(page, 'waitUntilUrl', { value: target }, async () => {
+    await page.waitForURL(target, { timeout });
+  });
 }
 
 /**
@@ -299,7 +400,9 @@ export async function waitUntilUrl(page: Page, url: string, timeout = 5000): Pro
  * ```
  */
 export async function getTitle(page: Page): Promise<string> {
-  return page.title();
+  return track(page, 'getTitle', undefined, async () => {
+    return page.title();
+  });
 }
 
 /**
@@ -315,14 +418,17 @@ export async function getTitle(page: Page): Promise<string> {
  * ```
  */
 export async function getUrl(page: Page): Promise<string> {
-  return page.url();
+  return track(page, 'getUrl', undefined, async () => {
+    return page.url();
+  });
 }
 
 /**
  * Get the relative URL path from a base URL.
  *
  * @param page - The Page instance
- * @param baseurl - The base URL to strip from the current URL
+ * @param baseurl - The base URL to strip from the current URL; a relative path
+ *   resolves against the environment base URL, and omitting it uses that base URL
  * @returns The relative path (e.g., '/dashboard' or '/user/profile')
  *
  * @example
@@ -332,12 +438,14 @@ export async function getUrl(page: Page): Promise<string> {
  * // Returns: '/dashboard/users'
  * ```
  */
-export async function endUrl(page: Page, baseurl: string): Promise<string> {
-  const current = await getUrl(page);
-  const cleanBase = baseurl.replace(/\/+$/, '');
-  const cleanCurrent = String(current).replace(/\/+$/, '');
-  const relative = cleanCurrent.startsWith(cleanBase) ? cleanCurrent.slice(cleanBase.length) : cleanCurrent;
-  return relative.startsWith('/') ? relative : '/' + relative;
+export async function endUrl(page: Page, baseurl = getEnvironment().baseUrl): Promise<string> {
+  return track(page, 'endUrl', undefined, async () => {
+    const current = await getUrl(page);
+    const cleanBase = resolveUrl(baseurl).replace(/\/+$/, '');
+    const cleanCurrent = String(current).replace(/\/+$/, '');
+    const relative = cleanCurrent.startsWith(cleanBase) ? cleanCurrent.slice(cleanBase.length) : cleanCurrent;
+    return relative.startsWith('/') ? relative : '/' + relative;
+  });
 }
 
 // ============================================================================
@@ -345,29 +453,32 @@ export async function endUrl(page: Page, baseurl: string): Promise<string> {
 // ============================================================================
 
 /**
- * Take a full-page screenshot and save it to the screenshots directory.
+ * Take a full-page screenshot and save it to the run's screenshots directory.
  *
  * @param page - The Page instance
  *
  * @example
  * ```ts
  * await takeShoot(page);
- * // Saves to: ./screenshots/screenshot-2024-01-15T10-30-45-123Z.png
+ * // Saves to: screenshots/screenshot-2024-01-15T10-30-45-123Z.png
  * ```
  *
  * @remarks
- * - Creates './screenshots' directory if it doesn't exist
+ * - Creates `screenshots/` in the run's output directory if it doesn't exist
+ *   (E2E_OUTPUT_DIR of a matrix cell or shard, see src/output.ts)
  * - Uses ISO timestamp for filename (with sanitized characters)
  * - Captures full page (scrolls to capture everything)
  * - Logs the saved file path to console
  */
 export async function takeShoot(page: Page): Promise<void> {
-  const screenshotsDir = path.join(__dirname, '../screenshots');
-  ensureDir(screenshotsDir);
-  const timestamp = new Date().toISOString().replace(/[:.]/g, '-');
-  const filename = path.join(screenshotsDir, `screenshot-${timestamp}.png`);
-  await page.screenshot({ path: filename, fullPage: true });
-  console.log(`📸 Screenshot saved: ${filename}`);
+  return track(page, 'takeShoot', undefined, async () => {
+    const screenshotsDir = outputPath('screenshots');
+    ensureDir(screenshotsDir);
+    const timestamp = new Date().toISOString().replace(/[:.]/g, '-');
+    const filename = path.join(screenshotsDir, `screenshot-${timestamp}.png`);
+    await page.screenshot({ path: filename, fullPage: true });
+    console.log(`📸 Screenshot saved: ${filename}`);
+  });
 }
 
 // ============================================================================
@@ -388,8 +499,10 @@ export async function takeShoot(page: Page): Promise<void> {
  * ```
  */
 export async function getText(page: Page, selector: string): Promise<string> {
-  const sel = await waitUntilVisible(page, selector);
-  return await page.innerText(sel);
+  return track(page, 'getText', selector, async () => {
+    const el = await visibleLocator(page, selector);
+    return await el.innerText();
+  });
 }
 
 /**
@@ -407,8 +520,10 @@ export async function getText(page: Page, selector: string): Promise<string> {
  * ```
  */
 export async function getAttribute(page: Page, selector: string, attribute: string): Promise<string | null> {
-  const sel = await waitUntilVisible(page, selector);
-  return await page.getAttribute(sel, attribute);
+  return track(page, 'getAttribute', selector, async () => {
+    const el = await visibleLocator(page, selector);
+    return await el.getAttribute(attribute);
+  });
 }
 
 /**
@@ -427,14 +542,14 @@ export async function getAttribute(page: Page, selector: string, attribute: stri
  * ```
  */
 export async function isVisible(page: Page, selector: string): Promise<boolean> {
-  try {
-    const [prefix, rawValue] = splitSelector(selector);
-    const css = toCssSelector(prefix, rawValue);
-    await page.waitForSelector(css, { state: 'visible', timeout: 5000 });
-    return true;
-  } catch {
-    return false;
-  }
+  return track(page, 'isVisible', selector, async () => {
+    try {
+      await toLocator(page, selector).first().waitFor({ state: 'visible', timeout: 5000 });
+      return true;
+    } catch {
+      return false;
+    }
+  });
 }
 
 /**
@@ -451,14 +566,14 @@ export async function isVisible(page: Page, selector: string): Promise<boolean>
  * ```
  */
 export async function isElementPresent(page: Page, selector: string): Promise<boolean> {
-  try {
-    const [prefix, rawValue] = splitSelector(selector);
-    const css = toCssSelector(prefix, rawValue);
-    await page.waitForSelector(css, { state: 'attached', timeout: 5000 });
-    return true;
-  } catch {
-    return false;
-  }
+  return track(page, 'isElementPresent', selector, async () => {
+    try {
+      await toLocator(page, selector).first().waitFor({ state: 'attached', timeout: 5000 });
+      return true;
+    } catch {
+      return false;
+    }
+  });
 }
 
 /**
@@ -477,8 +592,10 @@ export async function isElementPresent(page: Page, selector: string): Promise<bo
  * ```
  */
 export async function isEnabled(page: Page, selector: string): Promise<boolean> {
-  const sel = await waitUntilVisible(page, selector);
-  return !(await page.isDisabled(sel));
+  return track(page, 'isEnabled', selector, async () => {
+    const el = await visibleLocator(page, selector);
+    return await el.isEnabled();
+  });
 }
 
 /**
@@ -497,8 +614,10 @@ export async function isEnabled(page: Page, selector: string): Promise<boolean>
  * ```
  */
 export async function isChecked(page: Page, selector: string): Promise<boolean> {
-  const sel = await waitUntilVisible(page, selector);
-  return await page.isChecked(sel);
+  return track(page, 'isChecked', selector, async () => {
+    const el = await visibleLocator(page, selector);
+    return await el.isChecked();
+  });
 }
 
 /**
@@ -515,9 +634,9 @@ export async function isChecked(page: Page, selector: string): Promise<boolean>
  * ```
  */
 export async function getElementCount(page: Page, selector: string): Promise<number> {
-  const [prefix, rawValue] = splitSelector(selector);
-  const css = toCssSelector(prefix, rawValue);
-  return await page.locator(css).count();
+  return track(page, 'getElementCount', selector, async () => {
+    return await toLocator(page, selector).count();
+  });
 }
 
 /**
@@ -534,8 +653,10 @@ export async function getElementCount(page: Page, selector: string): Promise<num
  * ```
  */
 export async function selectOption(page: Page, selector: string, value: string): Promise<void> {
-  const sel = await waitUntilVisible(page, selector);
-  await page.selectOption(sel, value);
+  return track(page, 'selectOption', { selector, value }, async () => {
+    const el = await visibleLocator(page, selector);
+    await el.selectOption(value);
+  });
 }
 
 /**
@@ -551,8 +672,10 @@ export async function selectOption(page: Page, selector: string, value: string):
  * ```
  */
 export async function hover(page: Page, selector: string): Promise<void> {
-  const sel = await waitUntilVisible(page, selector);
-  await page.hover(sel);
+  return track(page, 'hover', selector, async () => {
+    const el = await visibleLocator(page, selector);
+    await el.hover();
+  });
 }
 
 /**
@@ -568,8 +691,10 @@ export async function hover(page: Page, selector: string): Promise<void> {
  * ```
  */
 export async function doubleClick(page: Page, selector: string): Promise<void> {
-  const sel = await waitUntilVisible(page, selector);
-  await page.dblclick(sel);
+  return track(page, 'doubleClick', selector, async () => {
+    const el = await visibleLocator(page, selector);
+    await el.dblclick();
+  });
 }
 
 /**
@@ -585,8 +710,10 @@ export async function doubleClick(page: Page, selector: string): Promise<void> {
  * ```
  */
 export async function rightClick(page: Page, selector: string): Promise<void> {
-  const sel = await waitUntilVisible(page, selector);
-  await page.click(sel, { button: 'right' });
+  return track(page, 'rightClick', selector, async () => {
+    const el = await visibleLocator(page, selector);
+    await el.click({ button: 'right' });
+  });
 }
 
 /**
@@ -602,8 +729,10 @@ export async function rightClick(page: Page, selector: string): Promise<void> {
  * ```
  */
 export async function scrollToElement(page: Page, selector: string): Promise<void> {
-  const sel = await waitUntilVisible(page, selector);
-  await page.locator(sel).scrollIntoViewIfNeeded();
+  return track(page, 'scrollToElement', selector, async () => {
+    const el = await visibleLocator(page, selector);
+    await el.scrollIntoViewIfNeeded();
+  });
 }
 
 /**
@@ -620,9 +749,11 @@ export async function scrollToElement(page: Page, selector: string): Promise<voi
  * ```
  */
 export async function scrollBy(page: Page, x: number, y: number): Promise<void> {
-  await page.evaluate(({ x, y }) => {
-    window.scrollBy(x, y);
-  }, { x, y });
+  return track(page, 'scrollBy', { value: `${x}, ${y}` }, async () => {
+    await page.evaluate(({ x, y }) => {
+      window.scrollBy(x, y);
+    }, { x, y });
+  });
 }
 
 /**
@@ -631,18 +762,20 @@ export async function scrollBy(page: Page, x: number, y: number): Promise<void>
  * @param page - The Page instance
  * @param selector - Element selector (with optional prefix)
  * @param timeout - Maximum time to wait in milliseconds (default: 10000)
+ * @returns A locator for the first matching element
  *
  * @example
  * ```ts
- * await waitForElement(page, 'id:dynamic-content');
+ * const content = await waitForElement(page, 'id:dynamic-content');
  * // Useful for waiting for dynamically added elements
  * ```
  */
-export async function waitForElement(page: Page, selector: string, timeout = 10000): Promise<string> {
-  const [prefix, rawValue] = splitSelector(selector);
-  const css = toCssSelector(prefix, rawValue);
-  await page.waitForSelector(css, { state: 'attached', timeout });
-  return css;
+export async function waitForElement(page: Page, selector: string, timeout = 10000): Promise<Locator> {
+  return track(page, 'waitForElement', selector, async () => {
+    const el = toLocator(page, selector).first();
+    await el.waitFor({ state: 'attached', timeout });
+    return el;
+  });
 }
 
 /**
@@ -659,8 +792,10 @@ export async function waitForElement(page: Page, selector: string, timeout = 100
  * ```
  */
 export async function getHtml(page: Page, selector: string): Promise<string> {
-  const sel = await waitUntilVisible(page, selector);
-  return await page.innerHTML(sel);
+  return track(page, 'getHtml', selector, async () => {
+    const el = await visibleLocator(page, selector);
+    return await el.innerHTML();
+  });
 }
 
 /**
@@ -676,7 +811,9 @@ export async function getHtml(page: Page, selector: string): Promise<string> {
  * ```
  */
 export async function getPageText(page: Page): Promise<string> {
-  return await page.evaluate(() => document.body.innerText ?? '');
+  return track(page, 'getPageText', undefined, async () => {
+    return await page.evaluate(() => document.body.innerText ?? '');
+  });
 }
 
 /**
@@ -691,7 +828,9 @@ export async function getPageText(page: Page): Promise<string> {
  * ```
  */
 export async function refresh(page: Page): Promise<void> {
-  await page.reload();
+  return track(page, 'refresh', undefined, async () => {
+    await page.reload();
+  });
 }
 
 /**
@@ -706,7 +845,9 @@ export async function refresh(page: Page): Promise<void> {
  * ```
  */
 export async function goBack(page: Page): Promise<void> {
-  await page.goBack();
+  return track(page, 'goBack', undefined, async () => {
+    await page.goBack();
+  });
 }
 
 /**
@@ -721,7 +862,9 @@ export async function goBack(page: Page): Promise<void> {
  * ```
  */
 export async function goForward(page: Page): Promise<void> {
-  await page.goForward();
+  return track(page, 'goForward', undefined, async () => {
+    await page.goForward();
+  });
 }
 
 // ============================================================================
@@ -757,7 +900,7 @@ export interface ReportEntry {
  * Append a test result entry to the report file.
  *
  * @param entry - The report entry to add
- * @param jsonPath - Path to the JSON report file (default: 'api_test_report.json')
+ * @param jsonPath - Path to the JSON report file (default: 'api_test_report.json' in the run's output directory, see src/output.ts)
  *
  * @remarks
  * - Automatically adds a timestamp to each entry
@@ -773,7 +916,7 @@ export interface ReportEntry {
  * }, 'test-results.json');
  * ```
  */
-export async function appendReport(entry: ReportEntry, jsonPath = 'api_test_report.json'): Promise<void> {
+export async function appendReport(entry: ReportEntry, jsonPath = outputPath('api_test_report.json')): Promise<void> {
   const enriched = { timestamp: new Date().toISOString(), ...entry };
   const arr = readJsonArray(jsonPath);
   arr.push(enriched);
@@ -838,6 +981,38 @@ export async function generateHtmlReport(jsonPath = 'api_test_report.json', html
   await writeFileSmart(htmlPath, html);
 }
 
+/** Output formats of exportReport */
+export type ExportFormat = 'junit' | 'tap' | 'markdown';
+
+const EXPORTERS: Record<ExportFormat, { render: (report: RunReport) => string; file: string }> = {
+  junit: { render: toJUnitXml, file: 'junit-report.xml' },
+  tap: { render: toTap, file: 'test-report.tap' },
+  markdown: { render: toMarkdown, file: 'test-summary.md' },
+};
+
+/**
+ * Export the finished run (Cucumber, appendReport and WDIO results) for CI
+ * and review tooling.
+ *
+ * @param format - 'junit' (one testcase per scenario), 'tap' or 'markdown' (PR comment summary)
+ * @param outPath - Output file (default: 'junit-report.xml', 'test-report.tap' or 'test-summary.md')
+ * @param sources - Result files to read instead of the defaults
+ * @returns The path written
+ *
+ * @example
+ * ```ts
+ * await exportReport('junit');
+ * await exportReport('markdown', 'pr-comment.md');
+ * ```
+ */
+export async function exportReport(format: ExportFormat, outPath?: string, sources: ReportSources = {}): Promise<string> {
+  const exporter = EXPORTERS[format];
+  if (!exporter) throw new Error(`Unknown report format "${format}" (expected ${Object.keys(EXPORTERS).join(', ')})`);
+  const target = outPath ?? exporter.file;
+  await writeFileSmart(target, exporter.render(collectResults(sources)));
+  return target;
+}
+
 // ============================================================================
 // FORM & INPUT HELPERS
 // ============================================================================
@@ -855,8 +1030,10 @@ export async function generateHtmlReport(jsonPath = 'api_test_report.json', html
  * ```
  */
 export async function check(page: Page, selector: string): Promise<void> {
-  const sel = await waitUntilVisible(page, selector);
-  await page.check(sel);
+  return track(page, 'check', selector, async () => {
+    const el = await visibleLocator(page, selector);
+    await el.check();
+  });
 }
 
 /**
@@ -871,8 +1048,10 @@ export async function check(page: Page, selector: string): Promise<void> {
  * ```
  */
 export async function uncheck(page: Page, selector: string): Promise<void> {
-  const sel = await waitUntilVisible(page, selector);
-  await page.uncheck(sel);
+  return track(page, 'uncheck', selector, async () => {
+    const el = await visibleLocator(page, selector);
+    await el.uncheck();
+  });
 }
 
 /**
@@ -889,8 +1068,10 @@ export async function uncheck(page: Page, selector: string): Promise<void> {
  * ```
  */
 export async function uploadFile(page: Page, selector: string, filePath: string): Promise<void> {
-  const sel = await waitUntilVisible(page, selector);
-  await page.setInputFiles(sel, filePath);
+  return track(page, 'uploadFile', { selector, value: filePath }, async () => {
+    const el = await visibleLocator(page, selector);
+    await el.setInputFiles(filePath);
+  });
 }
 
 /**
@@ -918,7 +1099,9 @@ export async function executeScript<R = any>(
   script: (arg: any) => R,
   arg?: any
 ): Promise<R> {
-  return await page.evaluate(script, arg);
+  return track(page, 'executeScript', undefined, async () => {
+    return await page.evaluate(script, arg);
+  });
 }
 
 /**
@@ -933,8 +1116,10 @@ export async function executeScript<R = any>(
  * ```
  */
 export async function clearInput(page: Page, selector: string): Promise<void> {
-  const sel = await waitUntilVisible(page, selector);
-  await page.fill(sel, '');
+  return track(page, 'clearInput', selector, async () => {
+    const el = await visibleLocator(page, selector);
+    await el.fill('');
+  });
 }
 
 /**
@@ -951,9 +1136,11 @@ export async function clearInput(page: Page, selector: string): Promise<void> {
  * ```
  */
 export async function switchToFrame(page: Page, selector: string): Promise<any> {
-  const sel = await waitUntilVisible(page, selector);
-  const frame = page.frameLocator(sel);
-  return frame;
+  return track(page, 'switchToFrame', selector, async () => {
+    const el = await visibleLocator(page, selector);
+    const frame = el.contentFrame();
+    return frame;
+  });
 }
 
 /**
@@ -970,8 +1157,10 @@ export async function switchToFrame(page: Page, selector: string): Promise<any>
  * ```
  */
 export async function getInputValue(page: Page, selector: string): Promise<string> {
-  const sel = await waitUntilVisible(page, selector);
-  return await page.inputValue(sel);
+  return track(page, 'getInputValue', selector, async () => {
+    const el = await visibleLocator(page, selector);
+    return await el.inputValue();
+  });
 }
 
 /**
@@ -988,9 +1177,9 @@ export async function getInputValue(page: Page, selector: string): Promise<strin
  * ```
  */
 export async function waitUntilHidden(page: Page, selector: string, timeout = 10000): Promise<void> {
-  const [prefix, rawValue] = splitSelector(selector);
-  const css = toCssSelector(prefix, rawValue);
-  await page.waitForSelector(css, { state: 'hidden', timeout });
+  return track(page, 'waitUntilHidden', selector, async () => {
+    await toLocator(page, selector).first().waitFor({ state: 'hidden', timeout });
+  });
 }
 
 /**
@@ -1008,10 +1197,12 @@ export async function waitUntilHidden(page: Page, selector: string, timeout = 10
  * ```
  */
 export async function getCssValue(page: Page, selector: string, property: string): Promise<string> {
-  const sel = await waitUntilVisible(page, selector);
-  return await page.$eval(sel, (el: HTMLElement, prop: string) => {
-    return window.getComputedStyle(el).getPropertyValue(prop);
-  }, property);
+  return track(page, 'getCssValue', selector, async () => {
+    const el = await visibleLocator(page, selector);
+    return await el.evaluate((node: HTMLElement, prop: string) => {
+      return window.getComputedStyle(node).getPropertyValue(prop);
+    }, property);
+  });
 }
 
 /**
@@ -1029,6 +1220,8 @@ export async function getCssValue(page: Page, selector: string, property: string
  * ```
  */
 export async function getElementBounds(page: Page, selector: string): Promise<{ x: number; y: number; width: number; height: number }> {
-  const sel = await waitUntilVisible(page, selector);
-  return await page.locator(sel).boundingBox() ?? { x: 0, y: 0, width: 0, height: 0 };
+  return track(page, 'getElementBounds', selector, async () => {
+    const el = await visibleLocator(page, selector);
+    return await el.boundingBox() ?? { x: 0, y: 0, width: 0, height: 0 };
+  });
 }
\ No newline at end of file
@@ -0,0 +1,127 @@
+/**
+ * Device and environment profiles
+ *
+ * A profile is a named set of BrowserContext options (device, viewport,
+ * locale, timezone, geolocation, color scheme, user agent, permissions,
+ * proxy, ...). Profiles come from two places:
+ * - custom profiles in `config/profiles.json`
+ * - Playwright's device descriptors, addressed by a slug of the device name
+ *   with an optional `mobile-` / `device-` prefix (`mobile-iphone13` → 'iPhone 13')
+ *
+ * @example
+ * ```gherkin
+ * @mobile-iphone13 @locale-de
+ * Scenario: German checkout on an iPhone
+ * ```
+ *
+ * @remarks
+ * Environment variables:
+ * - E2E_PROFILE: Comma-separated profile names applied to every scenario.
+ *   Profiles named by scenario tags are applied on top, in tag order.
+ */
+import { devices, type BrowserContextOptions } from 'playwright';
+import fs from 'fs';
+import path from 'path';
+
+export const PROFILES_FILE = path.join(process.cwd(), 'config', 'profiles.json');
+
+/** A custom profile: context options plus an optional Playwright device to start from */
+export interface BrowserProfile extends BrowserContextOptions {
+  /** Playwright device descriptor name, e.g. 'iPhone 13' */
+  device?: string;
+}
+
+export interface ResolvedProfile {
+  /** Profile names that were applied, in order */
+  names: string[];
+  /** Merged context options for browser.newContext() */
+  options: BrowserContextOptions;
+}
+
+const DEFAULT_OPTIONS: BrowserContextOptions = { viewport: { width: 1366, height: 768 } };
+
+function slug(value: string): string {
+  return value.toLowerCase().replace(/[^a-z0-9]/g, '');
+}
+
+let customProfiles: Record<string, BrowserProfile> | undefined;
+
+/** config/profiles.json, read once per process */
+function readCustomProfiles(): Record<string, BrowserProfile> {
+  if (!customProfiles) {
+    const parsed = fs.existsSync(PROFILES_FILE) ? JSON.parse(fs.readFileSync(PROFILES_FILE, 'utf8')) : {};
+    customProfiles = parsed && typeof parsed === 'object' ? parsed : {};
+  }
+  return customProfiles!;
+}
+
+function deviceOptions(name: string): BrowserContextOptions {
+  const descriptor = devices[name];
+  if (!descriptor) throw new Error(`Unknown Playwright device "${name}"`);
+  const { defaultBrowserType, ...options } = descriptor;
+  return options;
+}
+
+function findDevice(name: string): string | undefined {
+  const wanted = slug(name.replace(/^(mobile|device)-/i, ''));
+  return Object.keys(devices).find((d) => slug(d) === wanted);
+}
+
+/**
+ * Look up a single profile by name.
+ *
+ * @returns The profile's context options, or undefined if no such profile exists
+ */
+export function getProfile(name: string): BrowserContextOptions | undefined {
+  const custom = readCustomProfiles()[name];
+  if (custom) {
+    const { device, ...options } = custom;
+    return { ...(device ? deviceOptions(device) : {}), ...options };
+  }
+  const device = findDevice(name);
+  return device ? deviceOptions(device) : undefined;
+}
+
+/**
+ * Resolve the profile for a scenario from E2E_PROFILE and its tags.
+ *
+ * @param tags - Scenario tag names (with or without the leading '@')
+ * @param engine - Browser engine the context is opened in; Firefox has no
+ *   mobile emulation, so `isMobile` and `hasTouch` are left out there
+ * @throws Error if E2E_PROFILE names an unknown profile
+ *
+ * @example
+ * ```ts
+ * const { names, options } = resolveProfile(['@mobile-iphone13']);
+ * const context = await browser.newContext(options);
+ * ```
+ */
+export function resolveProfile(tags: string[] = [], engine?: string): ResolvedProfile {
+  const names: string[] = [];
+  let options: BrowserContextOptions = { ...DEFAULT_OPTIONS };
+
+  const fromEnv = String(process.env.E2E_PROFILE ?? '')
+    .split(',')
+    .map((s) => s.trim())
+    .filter(Boolean);
+  for (const name of fromEnv) {
+    const profile = getProfile(name);
+    if (!profile) throw new Error(`Unknown profile "${name}" in E2E_PROFILE`);
+    options = { ...options, ...profile };
+    names.push(name);
+  }
+
+  for (const tag of tags) {
+    const name = tag.replace(/^@/, '');
+    const profile = getProfile(name);
+    if (!profile) continue; // ordinary tag
+    options = { ...options, ...profile };
+    names.push(name);
+  }
+
+  if (engine === 'firefox') {
+    const { isMobile, hasTouch, ...supported } = options;
+    options = supported;
+  }
+  return { names, options };
+}
@@ -0,0 +1,101 @@
+/**
+ * Quarantine
+ *
+ * Scenarios broken by a known product bug are listed in the checked-in
+ * `config/quarantine.json` instead of being deleted. They still run and show
+ * up in every report, but their failures don't fail the run (see runOutcome()
+ * in src/runner.ts). Every entry names the issue and an expiry date; once it
+ * has expired the run fails until the entry is renewed or removed. A
+ * quarantined scenario that passes is reported as a release candidate: the
+ * bug may be fixed and the entry can go.
+ *
+ * @example config/quarantine.json
+ * ```json
+ * [
+ *   { "scenario": "Checkout with an empty cart", "issue": "SHOP-123", "expires": "2026-12-31" },
+ *   { "tag": "@known-bug", "feature": "Sauce Demo", "issue": "https://github.com/acme/shop/issues/42", "expires": "2026-11-30" }
+ * ]
+ * ```
+ */
+import fs from 'fs';
+import path from 'path';
+
+export const QUARANTINE_FILE = path.join(process.cwd(), 'config', 'quarantine.json');
+
+export interface QuarantineEntry {
+  /** Scenario name, without the matrix cell */
+  scenario?: string;
+  /** Tag quarantining every scenario that carries it, e.g. '@known-bug' */
+  tag?: string;
+  /** Only match scenarios of this feature (feature name) */
+  feature?: string;
+  /** Issue key or URL of the product bug */
+  issue: string;
+  /** Last day of the quarantine, YYYY-MM-DD */
+  expires: string;
+  reason?: string;
+}
+
+/** What an entry is matched against */
+export interface QuarantineTarget {
+  name: string;
+  feature: string;
+  tags: string[];
+}
+
+function describe(entry: Partial<QuarantineEntry>, index: number): string {
+  return entry.scenario ? `"${entry.scenario}"` : entry.tag ? entry.tag : `#${index + 1}`;
+}
+
+/**
+ * Read the quarantine list. A missing file means nothing is quarantined.
+ *
+ * @throws Error for entries without a scenario or tag, an issue, or a valid expiry date
+ */
+export function readQuarantine(file = QUARANTINE_FILE): QuarantineEntry[] {
+  if (!fs.existsSync(file)) return [];
+  const entries = JSON.parse(fs.readFileSync(file, 'utf8'));
+  if (!Array.isArray(entries)) throw new Error(`${path.relative(process.cwd(), file)} must contain a list of entries`);
+  entries.forEach((entry: Partial<QuarantineEntry>, i) => {
+    const problem = !entry.scenario && !entry.tag
+      ? 'needs a scenario or a tag'
+      : !entry.issue
+        ? 'needs an issue'
+        : !/^\d{4}-\d{2}-\d{2}$/.test(entry.expires ?? '') || isNaN(Date.parse(entry.expires!))
+          ? `needs an expiry date (YYYY-MM-DD), got "${entry.expires ?? ''}"`
+          : undefined;
+    if (problem) throw new Error(`Quarantine entry ${describe(entry, i)} in ${path.relative(process.cwd(), file)} ${problem}`);
+  });
+  return entries;
+}
+
+/** Whether the entry's last day lies before `today` */
+export function isExpired(entry: QuarantineEntry, today = new Date()): boolean {
+  return entry.expires < today.toISOString().slice(0, 10);
+}
+
+export function expiredEntries(entries: QuarantineEntry[], today = new Date()): QuarantineEntry[] {
+  return entries.filter((entry) => isExpired(entry, today));
+}
+
+/**
+ * The unexpired entry quarantining a scenario, if any. Expired entries no
+ * longer protect their scenarios.
+ */
+export function quarantineOf(entries: QuarantineEntry[], scenario: QuarantineTarget, today = new Date()): QuarantineEntry | undefined {
+  return entries.find((entry) => {
+    if (isExpired(entry, today)) return false;
+    if (entry.feature && entry.feature !== scenario.feature) return false;
+    if (entry.scenario && entry.scenario !== scenario.name) return false;
+    if (entry.tag && !scenario.tags.includes(entry.tag.startsWith('@') ? entry.tag : `@${entry.tag}`)) return false;
+    return true;
+  });
+}
+
+/**
+ * One line describing an expired entry and what to do about it.
+ */
+export function expiryMessage(entry: QuarantineEntry): string {
+  const target = [entry.feature, entry.scenario ? `"${entry.scenario}"` : entry.tag].filter(Boolean).join(' › ');
+  return `Quarantine of ${target} (${entry.issue}) expired on ${entry.expires}: fix the scenario, or renew or remove the entry in config/quarantine.json`;
+}
@@ -1,11 +1,32 @@
+/**
+ * Scenario screen recording
+ *
+ * Recordings are driven by the Before/After hooks. A scenario is recorded when
+ * it is tagged `@record` or when RECORD_VIDEO asks for it, using either
+ * Playwright's native `recordVideo` (the page only) or an ffmpeg desktop
+ * capture (the whole screen).
+ *
+ * @remarks
+ * Environment variables:
+ * - RECORD_VIDEO: 'off' (default), 'on', or 'retain-on-failure' (videos of
+ *   passing scenarios are deleted)
+ * - RECORDING_MODE: 'playwright' (default) or 'ffmpeg'
+ * - RECORDING_DISPLAY: ffmpeg input device (linux default: $DISPLAY or ':0.0',
+ *   macOS default: '1:none')
+ */
 import { spawn, ChildProcessWithoutNullStreams } from 'child_process';
 import * as path from 'path';
 import * as fs from 'fs';
 import os from 'os';
+import { type Video } from 'playwright';
+import { outputPath } from '@/output';
 
-const RECORDINGS_DIR = path.join(__dirname, '../recordings');
+export const RECORDINGS_DIR = outputPath('recordings');
 if (!fs.existsSync(RECORDINGS_DIR)) fs.mkdirSync(RECORDINGS_DIR, { recursive: true });
 
+export type RecordingPolicy = 'off' | 'on' | 'retain-on-failure';
+export type RecordingMode = 'playwright' | 'ffmpeg';
+
 const activeRecordings: Map<string, ChildProcessWithoutNullStreams> = new Map();
 const recordingPaths: Map<string, string> = new Map();
 
@@ -13,21 +34,42 @@ export function getRecordingFile(scenarioName: string): string | undefined {
   return recordingPaths.get(scenarioName);
 }
 
+/**
+ * Recording policy for a scenario: `@record` always records, otherwise RECORD_VIDEO decides.
+ */
+export function getRecordingPolicy(tags: string[] = []): RecordingPolicy {
+  if (tags.includes('@record')) return 'on';
+  const val = String(process.env.RECORD_VIDEO ?? 'off').toLowerCase();
+  if (val === 'on' || val === 'true') return 'on';
+  if (val === 'retain-on-failure') return 'retain-on-failure';
+  return 'off';
+}
+
+export function getRecordingMode(): RecordingMode {
+  return String(process.env.RECORDING_MODE ?? 'playwright').toLowerCase() === 'ffmpeg' ? 'ffmpeg' : 'playwright';
+}
+
+function recordingName(scenarioName: string, ext: string): string {
+  return path.join(RECORDINGS_DIR, `${scenarioName.replace(/[^a-z0-9]/gi, '_')}-${Date.now()}.${ext}`);
+}
+
 export function startRecording(scenarioName: string): void {
   if (activeRecordings.has(scenarioName)) return;
 
   const platform = os.platform();
   let inputArgs: string[] = [];
-  const outputFile = path.join(RECORDINGS_DIR, `${scenarioName.replace(/[^a-z0-9]/gi, '_')}-${Date.now()}.mp4`);
+  const outputFile = recordingName(scenarioName, 'mp4');
   recordingPaths.set(scenarioName, outputFile);
 
   if (platform === 'darwin') {
     // macOS: screen index 1, no audio
-    inputArgs = ['-f', 'avfoundation', '-framerate', '30', '-i', '1:none', '-preset', 'ultrafast', '-pix_fmt', 'yuv420p', outputFile];
+    const device = process.env.RECORDING_DISPLAY ?? '1:none';
+    inputArgs = ['-f', 'avfoundation', '-framerate', '30', '-i', device, '-preset', 'ultrafast', '-pix_fmt', 'yuv420p', outputFile];
   } else if (platform === 'win32') {
     inputArgs = ['-f', 'gdigrab', '-framerate', '30', '-i', 'desktop', '-preset', 'ultrafast', '-pix_fmt', 'yuv420p', outputFile];
   } else if (platform === 'linux') {
-    inputArgs = ['-f', 'x11grab', '-framerate', '30', '-i', ':0.0', '-preset', 'ultrafast', '-pix_fmt', 'yuv420p', outputFile];
+    const display = process.env.RECORDING_DISPLAY ?? process.env.DISPLAY ?? ':0.0';
+    inputArgs = ['-f', 'x11grab', '-framerate', '30', '-i', display, '-preset', 'ultrafast', '-pix_fmt', 'yuv420p', outputFile];
   } else {
     console.error(`[Recording] Unsupported platform: ${platform}`);
     return;
@@ -62,4 +104,46 @@ export async function stopRecording(scenarioName: string): Promise<void> {
   } else {
     console.warn(`[Recording] No recording process found for '${scenarioName}'`);
   }
-}
\ No newline at end of file
+}
+
+/**
+ * Finish a scenario's recording and apply the retention policy.
+ *
+ * @param scenarioName - Scenario name the recording was started for
+ * @param policy - Policy the scenario ran with
+ * @param failed - Whether the scenario failed
+ * @param video - Playwright video of the scenario's page (playwright mode);
+ *   its context must already be closed so the file is complete
+ * @returns Path of the kept recording, or undefined if none was kept
+ */
+export async function finishRecording(
+  scenarioName: string,
+  policy: RecordingPolicy,
+  failed: boolean,
+  video?: Video | null
+): Promise<string | undefined> {
+  if (policy === 'off') return undefined;
+  const keep = policy === 'on' || failed;
+
+  if (video) {
+    if (!keep) {
+      await video.delete();
+      return undefined;
+    }
+    const target = recordingName(scenarioName, 'webm');
+    await video.saveAs(target);
+    await video.delete();
+    recordingPaths.set(scenarioName, target);
+    return target;
+  }
+
+  await stopRecording(scenarioName);
+  const file = recordingPaths.get(scenarioName);
+  if (!file || !fs.existsSync(file)) return undefined;
+  if (!keep) {
+    fs.unlinkSync(file);
+    recordingPaths.delete(scenarioName);
+    return undefined;
+  }
+  return file;
+}
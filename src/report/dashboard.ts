@@ -0,0 +1,189 @@
+/**
+ * HTML dashboard
+ *
+ * Renders a RunReport as one self-contained page: totals, per-platform and
+ * per-feature breakdowns, then every scenario with its steps, durations and
+ * attachments. Screenshots are embedded as data URIs; HTML attachments (the
+ * action timeline, trace links, recordings) are rendered as they are. Retried
+ * scenarios list every attempt with links to its artifacts. A browser matrix
+ * run adds a table with each scenario's status per browser side by side.
+ * Quarantined scenarios are listed with their issue, passing ones as release
+ * candidates; expired quarantine entries are shown at the top.
+ */
+import { expiryMessage } from '@/quarantine';
+import { ATTEMPTS_MEDIA_TYPE } from '@/retry';
+import { scenarioTitle, type ReportAttachment, type ReportScenario, type ReportSummary, type RunReport, type StatusCounts } from './results';
+
+export function escapeHtml(value: string): string {
+  return value.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+}
+
+export function formatDuration(ms: number): string {
+  if (ms < 1000) return `${ms}ms`;
+  if (ms < 60000) return `${(ms / 1000).toFixed(1)}s`;
+  return `${Math.floor(ms / 60000)}m ${Math.round((ms % 60000) / 1000)}s`;
+}
+
+function decode(attachment: ReportAttachment): string {
+  return attachment.data ? Buffer.from(attachment.data, 'base64').toString('utf8') : '';
+}
+
+function renderAttachment(attachment: ReportAttachment): string {
+  const { mimeType, data, path: filePath } = attachment;
+  if (mimeType === ATTEMPTS_MEDIA_TYPE) return ''; // rendered by renderAttempts
+  const src = filePath ? escapeHtml(filePath) : `data:${mimeType};base64,${data}`;
+  if (mimeType.startsWith('image/')) return `<img class="shot" src="${src}"/>`;
+  if (mimeType.startsWith('video/')) return `<video controls width="640" src="${src}"></video>`;
+  if (filePath) return `<a href="${src}">${escapeHtml(filePath)}</a>`;
+  if (mimeType === 'text/html') return `<div class="html">${decode(attachment)}</div>`;
+  const text = decode(attachment);
+  const [first, ...rest] = text.split('\n');
+  if (!rest.length) return `<pre>${escapeHtml(first)}</pre>`;
+  return `<details><summary>${escapeHtml(first)}</summary><pre>${escapeHtml(text)}</pre></details>`;
+}
+
+function countsRow(label: string, counts: StatusCounts, extra = ''): string {
+  return `<tr><td>${escapeHtml(label)}</td>${extra}<td>${counts.total}</td><td class="passed">${counts.passed}</td><td class="failed">${counts.failed}</td><td class="skipped">${counts.skipped}</td><td class="flaky">${counts.flaky}</td><td>${formatDuration(counts.durationMs)}</td></tr>`;
+}
+
+function renderAttempts(scenario: ReportScenario): string {
+  if (!scenario.attempts?.length) return '';
+  const rows = scenario.attempts
+    .map(
+      (a) => `<tr class="${a.status}"><td>#${a.attempt}</td><td>${a.status}</td><td>${escapeHtml(a.error ?? '')}</td><td>${a.artifacts
+        .map((f) => `<a href="${escapeHtml(f)}">${escapeHtml(f)}</a>`)
+        .join('<br/>')}</td></tr>`
+    )
+    .join('');
+  return `<table><thead><tr><th>Attempt</th><th>Status</th><th>Error</th><th>Artifacts</th></tr></thead><tbody>${rows}</tbody></table>`;
+}
+
+function renderScenario(scenario: ReportScenario): string {
+  const steps = scenario.steps
+    .map(
+      (step) => `<tr class="${step.status}"><td>${escapeHtml(step.keyword && step.keyword !== step.name ? `${step.keyword} ${step.name}` : step.name)}</td><td>${step.status}</td><td>${formatDuration(step.durationMs)}</td></tr>${
+        step.error ? `<tr><td colspan="3"><pre class="error">${escapeHtml(step.error)}</pre></td></tr>` : ''
+      }${step.attachments.length ? `<tr><td colspan="3">${step.attachments.map(renderAttachment).join('')}</td></tr>` : ''}`
+    )
+    .join('');
+  const tags = scenario.tags.length ? ` <span class="tags">${escapeHtml(scenario.tags.join(' '))}</span>` : '';
+  const quarantine = scenario.quarantine ? ` <span class="badge quarantined" title="Expires ${escapeHtml(scenario.quarantine.expires)}">quarantined · ${escapeHtml(scenario.quarantine.issue)}</span>` : '';
+  return `<details class="scenario"${scenario.status === 'failed' ? ' open' : ''}><summary><span class="badge ${scenario.status}">${scenario.status}</span>${quarantine} ${escapeHtml(scenario.name)}${tags} <span class="muted">${[scenario.platform, scenario.variant].filter(Boolean).map((v) => escapeHtml(v!)).join(' · ')} · ${formatDuration(scenario.durationMs)}</span></summary>${renderAttempts(scenario)}<table>${steps}</table></details>`;
+}
+
+/** Scenario × matrix cell grid; '—' where the scenario did not run (e.g. excluded by @skip-<browser>) */
+function renderMatrix(report: RunReport, summary: ReportSummary): string {
+  const variants = Object.keys(summary.byVariant);
+  if (!variants.length) return '';
+  const rows = new Map<string, Map<string, ReportScenario>>();
+  for (const scenario of report.scenarios.filter((s) => s.variant)) {
+    const key = `${scenario.feature}\u0000${scenario.name}`;
+    if (!rows.has(key)) rows.set(key, new Map());
+    rows.get(key)!.set(scenario.variant!, scenario);
+  }
+  const body = [...rows.entries()]
+    .map(([key, cells]) => {
+      const [feature, name] = key.split('\u0000');
+      const statuses = variants
+        .map((v) => cells.get(v))
+        .map((s) => (s ? `<td><span class="badge ${s.status}">${s.status}</span></td>` : '<td class="muted" title="Not run">—</td>'))
+        .join('');
+      return `<tr><td>${escapeHtml(feature)}</td><td>${escapeHtml(name)}</td>${statuses}</tr>`;
+    })
+    .join('');
+  const head = variants.map((v) => `<th>${escapeHtml(v)}</th>`).join('');
+  const totals = Object.entries(summary.byVariant)
+    .map(([variant, counts]) => countsRow(variant, counts))
+    .join('');
+  return `<h2>Browsers</h2>
+  <table><thead><tr><th>Browser</th><th>Total</th><th>Passed</th><th>Failed</th><th>Skipped</th><th>Flaky</th><th>Duration</th></tr></thead><tbody>${totals}</tbody></table>
+  <table><thead><tr><th>Feature</th><th>Scenario</th>${head}</tr></thead><tbody>${body}</tbody></table>`;
+}
+
+/** Every quarantined scenario that ran */
+function renderQuarantine(summary: ReportSummary): string {
+  if (!summary.quarantined.length) return '';
+  const rows = summary.quarantined
+    .map(
+      (q) => `<tr><td>${escapeHtml(q.feature)}</td><td>${escapeHtml(scenarioTitle({ name: q.scenario, variant: q.variant }))}</td><td><span class="badge ${q.status}">${q.status}</span>${
+        q.status === 'passed' ? ' release candidate' : ''
+      }</td><td>${escapeHtml(q.issue)}</td><td>${escapeHtml(q.expires)}</td></tr>`
+    )
+    .join('');
+  return `<h2>Quarantine</h2>
+  <table><thead><tr><th>Feature</th><th>Scenario</th><th>Status</th><th>Issue</th><th>Expires</th></tr></thead><tbody>${rows}</tbody></table>`;
+}
+
+/**
+ * Render the dashboard page.
+ */
+export function renderDashboard(report: RunReport, summary: ReportSummary): string {
+  const { totals } = summary;
+  const metadata = Object.entries(report.metadata)
+    .map(([key, value]) => `<tr><th>${escapeHtml(key)}</th><td>${escapeHtml(value)}</td></tr>`)
+    .join('');
+  const platforms = Object.entries(summary.byPlatform)
+    .map(([platform, counts]) => countsRow(platform, counts))
+    .join('');
+  const features = Object.entries(summary.byFeature)
+    .map(([feature, counts]) => countsRow(feature, counts, `<td>${counts.platform}</td>`))
+    .join('');
+
+  const byFeature = new Map<string, ReportScenario[]>();
+  for (const scenario of report.scenarios) {
+    if (!byFeature.has(scenario.feature)) byFeature.set(scenario.feature, []);
+    byFeature.get(scenario.feature)!.push(scenario);
+  }
+  const scenarios = [...byFeature.entries()]
+    .map(([feature, list]) => `<h3>${escapeHtml(feature)}</h3>${list.map(renderScenario).join('')}`)
+    .join('');
+
+  return `<!doctype html>
+<html>
+<head>
+  <meta charset="utf-8"/>
+  <title>Test Dashboard</title>
+  <style>
+    body { font-family: system-ui, Arial, sans-serif; padding: 16px; max-width: 1200px; margin: auto; }
+    table { border-collapse: collapse; width: 100%; margin-bottom: 16px; }
+    th, td { border: 1px solid #ddd; padding: 6px 8px; text-align: left; vertical-align: top; }
+    th { background: #f5f5f5; }
+    .cards { display: flex; gap: 12px; margin-bottom: 16px; }
+    .card { flex: 1; padding: 12px; border-radius: 6px; background: #f5f5f5; font-size: 1.4em; }
+    .card small { display: block; font-size: 0.6em; color: #666; }
+    .passed { color: #2e7d32; } .failed { color: #c62828; } .skipped { color: #9e9e9e; } .flaky { color: #ef6c00; }
+    .badge { display: inline-block; min-width: 56px; padding: 2px 6px; border-radius: 4px; color: #fff; text-align: center; }
+    .badge.passed { background: #2e7d32; } .badge.failed { background: #c62828; } .badge.skipped { background: #9e9e9e; } .badge.flaky { background: #ef6c00; } .badge.quarantined { background: #6a1b9a; }
+    .expired { padding: 8px 12px; border-radius: 6px; background: #ffebee; color: #c62828; font-weight: bold; }
+    .scenario { border: 1px solid #ddd; border-radius: 4px; padding: 6px; margin-bottom: 6px; }
+    .scenario summary { cursor: pointer; }
+    .muted, .tags { color: #666; font-size: 0.9em; }
+    pre { white-space: pre-wrap; max-height: 400px; overflow: auto; background: #fafafa; padding: 6px; }
+    pre.error { color: #c62828; }
+    img.shot { max-width: 480px; border: 1px solid #ddd; margin: 4px; }
+  </style>
+</head>
+<body>
+  <h1>Test Dashboard</h1>
+  ${summary.expiredQuarantine.map((e) => `<p class="expired">${escapeHtml(expiryMessage(e))}</p>`).join('')}
+  <p class="muted">Generated: ${escapeHtml(new Date(report.generatedAt).toLocaleString())}</p>
+  <div class="cards">
+    <div class="card"><small>Total</small>${totals.total}</div>
+    <div class="card passed"><small>Passed</small>${totals.passed}</div>
+    <div class="card failed"><small>Failed</small>${totals.failed}</div>
+    <div class="card skipped"><small>Skipped</small>${totals.skipped}</div>
+    <div class="card flaky"><small>Flaky</small>${totals.flaky}</div>
+    <div class="card"><small>Duration</small>${formatDuration(totals.durationMs)}</div>
+  </div>
+  ${metadata ? `<h2>Run</h2><table>${metadata}</table>` : ''}
+  ${renderQuarantine(summary)}
+  <h2>Platforms</h2>
+  <table><thead><tr><th>Platform</th><th>Total</th><th>Passed</th><th>Failed</th><th>Skipped</th><th>Flaky</th><th>Duration</th></tr></thead><tbody>${platforms}</tbody></table>
+  ${renderMatrix(report, summary)}
+  <h2>Features</h2>
+  <table><thead><tr><th>Feature</th><th>Platform</th><th>Total</th><th>Passed</th><th>Failed</th><th>Skipped</th><th>Flaky</th><th>Duration</th></tr></thead><tbody>${features}</tbody></table>
+  <h2>Scenarios</h2>
+  ${scenarios}
+</body>
+</html>`;
+}
@@ -0,0 +1,197 @@
+/**
+ * Report exporters
+ *
+ * Render a RunReport for tools that can't read Cucumber JSON: JUnit XML for
+ * CI test tabs, TAP for TAP consumers, and a Markdown summary for PR comments.
+ */
+import { expiryMessage } from '@/quarantine';
+import { scenarioTitle, summarize, type ReportAttachment, type ReportScenario, type RunReport } from './results';
+import { formatDuration } from './dashboard';
+
+function escapeXml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    // Control characters are not allowed in XML 1.0
+    .replace(/[\u0000-\u0008\u000B\u000C\u000E-\u001F]/g, '');
+}
+
+function cdata(value: string): string {
+  return `<![CDATA[${value.replace(/]]>/g, ']]]]><![CDATA[>')}]]>`;
+}
+
+function seconds(ms: number): string {
+  return (ms / 1000).toFixed(3);
+}
+
+function describeAttachment(attachment: ReportAttachment): string {
+  if (attachment.path) return `[${attachment.mimeType}] ${attachment.path}`;
+  if (attachment.mimeType === 'text/plain' && attachment.data) return Buffer.from(attachment.data, 'base64').toString('utf8');
+  return `[${attachment.mimeType} attachment]`;
+}
+
+/** Steps with their status and attachments, one per line */
+function scenarioOutput(scenario: ReportScenario): string {
+  return scenario.steps
+    .flatMap((step) => [
+      `${step.status.toUpperCase().padEnd(7)} ${step.keyword && step.keyword !== step.name ? `${step.keyword} ` : ''}${step.name} (${formatDuration(step.durationMs)})`,
+      ...step.attachments.map((a) => describeAttachment(a).replace(/^/gm, '        ')),
+    ])
+    .join('\n');
+}
+
+function groupByFeature(scenarios: ReportScenario[]): Map<string, ReportScenario[]> {
+  const byFeature = new Map<string, ReportScenario[]>();
+  for (const scenario of scenarios) {
+    if (!byFeature.has(scenario.feature)) byFeature.set(scenario.feature, []);
+    byFeature.get(scenario.feature)!.push(scenario);
+  }
+  return byFeature;
+}
+
+/**
+ * JUnit XML: one testsuite per feature, one testcase per scenario, steps and
+ * attachments as system-out. Quarantined failures are skipped testcases.
+ */
+export function toJUnitXml(report: RunReport): string {
+  const { totals, failures } = summarize(report);
+  // Quarantined failures are reported as skipped, so CI test tabs don't fail on them
+  const ignored = (s: ReportScenario) => s.status === 'failed' && !!s.quarantine;
+  const metadata = Object.entries(report.metadata);
+  const properties = metadata.length
+    ? `    <properties>\n${metadata.map(([k, v]) => `      <property name="${escapeXml(k)}" value="${escapeXml(v)}"/>`).join('\n')}\n    </properties>\n`
+    : '';
+  const suites = [...groupByFeature(report.scenarios).entries()].map(([feature, scenarios]) => {
+    const failed = scenarios.filter((s) => s.status === 'failed' && !ignored(s)).length;
+    const skipped = scenarios.filter((s) => s.status === 'skipped' || ignored(s)).length;
+    const time = scenarios.reduce((sum, s) => sum + s.durationMs, 0);
+    const cases = scenarios.map((s) => {
+      // Surefire's flakyFailure: the testcase passed, earlier attempts failed
+      const flakes = (s.status === 'flaky' ? s.attempts ?? [] : [])
+        .filter((a) => a.status === 'failed')
+        .map((a) => `\n      <flakyFailure message="${escapeXml(`Attempt ${a.attempt}: ${a.error ?? 'failed'}`)}"/>`)
+        .join('');
+      const outcome = ignored(s)
+        ? `\n      <skipped message="${escapeXml(`Quarantined (${s.quarantine!.issue}): ${(s.error ?? 'Scenario failed').split('\n')[0]}`)}"/>`
+        : s.status === 'failed'
+          ? `\n      <failure message="${escapeXml((s.error ?? 'Scenario failed').split('\n')[0])}">${escapeXml(s.error ?? '')}</failure>`
+          : s.status === 'skipped'
+            ? '\n      <skipped/>'
+            : flakes;
+      return `    <testcase classname="${escapeXml(feature)}" name="${escapeXml(scenarioTitle(s))}" time="${seconds(s.durationMs)}">${outcome}
+      <system-out>${cdata(scenarioOutput(s))}</system-out>
+    </testcase>`;
+    });
+    return `  <testsuite name="${escapeXml(feature)}" tests="${scenarios.length}" failures="${failed}" skipped="${skipped}" errors="0" time="${seconds(time)}" timestamp="${report.generatedAt}">
+${properties}${cases.join('\n')}
+  </testsuite>`;
+  });
+
+  return `<?xml version="1.0" encoding="UTF-8"?>
+<testsuites name="e2e" tests="${totals.total}" failures="${failures.length}" skipped="${totals.skipped + report.scenarios.filter(ignored).length}" errors="0" time="${seconds(totals.durationMs)}">
+${suites.join('\n')}
+</testsuites>
+`;
+}
+
+/**
+ * TAP version 13: one test point per scenario, failures with a YAML diagnostic
+ * block; quarantined failures are TODO points.
+ */
+export function toTap(report: RunReport): string {
+  const lines = [
+    'TAP version 13',
+    ...Object.entries(report.metadata).map(([k, v]) => `# ${k}: ${v}`),
+    `1..${report.scenarios.length}`,
+  ];
+  report.scenarios.forEach((s, i) => {
+    const title = `${s.feature} › ${scenarioTitle(s)}`.replace(/#/g, '\\#');
+    if (s.status === 'skipped') {
+      lines.push(`ok ${i + 1} - ${title} # SKIP`);
+    } else if (s.status === 'passed') {
+      lines.push(`ok ${i + 1} - ${title}`);
+    } else if (s.status === 'flaky') {
+      lines.push(`ok ${i + 1} - ${title} (flaky: passed on attempt ${s.attempts?.length ?? '?'})`);
+    } else {
+      // A TODO directive keeps the failure from failing the TAP run
+      const todo = s.quarantine ? ` # TODO quarantined (${s.quarantine.issue})` : '';
+      lines.push(`not ok ${i + 1} - ${title}${todo}`, '  ---', `  platform: ${s.platform}`, `  duration_ms: ${s.durationMs}`);
+      if (s.error) lines.push('  message: |', ...s.error.split('\n').map((l) => `    ${l}`));
+      lines.push('  ...');
+    }
+  });
+  return lines.join('\n') + '\n';
+}
+
+function cell(value: string): string {
+  return value.replace(/\|/g, '\\|').replace(/\n/g, ' ');
+}
+
+const STATUS_ICON: Record<string, string> = { passed: '✅', failed: '❌', skipped: '⏭️', flaky: '⚠️', quarantined: '🧪' };
+
+/**
+ * Markdown summary for PR comments: totals, per-feature table, failures,
+ * flaky and quarantined scenarios.
+ */
+export function toMarkdown(report: RunReport): string {
+  const summary = summarize(report);
+  const { totals } = summary;
+  const lines = [
+    `## ${summary.failures.length || summary.expiredQuarantine.length ? STATUS_ICON.failed : STATUS_ICON.passed} Test results`,
+    '',
+    '| Total | Passed | Failed | Skipped | Flaky | Duration |',
+    '| ---: | ---: | ---: | ---: | ---: | ---: |',
+    `| ${totals.total} | ${totals.passed} | ${totals.failed} | ${totals.skipped} | ${totals.flaky} | ${formatDuration(totals.durationMs)} |`,
+    '',
+    '| Feature | Platform | Passed | Failed | Skipped | Flaky | Duration |',
+    '| --- | --- | ---: | ---: | ---: | ---: | ---: |',
+    ...Object.entries(summary.byFeature).map(
+      ([feature, c]) => `| ${cell(feature)} | ${c.platform} | ${c.passed} | ${c.failed} | ${c.skipped} | ${c.flaky} | ${formatDuration(c.durationMs)} |`
+    ),
+  ];
+
+  const variants = Object.entries(summary.byVariant);
+  if (variants.length) {
+    lines.push(
+      '',
+      '| Browser | Passed | Failed | Skipped | Flaky | Duration |',
+      '| --- | ---: | ---: | ---: | ---: | ---: |',
+      ...variants.map(([variant, c]) => `| ${cell(variant)} | ${c.passed} | ${c.failed} | ${c.skipped} | ${c.flaky} | ${formatDuration(c.durationMs)} |`)
+    );
+  }
+
+  if (summary.failures.length) {
+    lines.push('', '### Failures', '');
+    for (const f of summary.failures) {
+      lines.push(`- **${cell(f.feature)} › ${cell(f.scenario)}** (${[f.platform, f.variant].filter(Boolean).join(', ')})${f.error ? `: \`${cell(f.error.split('\n')[0])}\`` : ''}`);
+    }
+  }
+
+  if (summary.flaky.length) {
+    lines.push('', `### ${STATUS_ICON.flaky} Flaky`, '');
+    for (const f of summary.flaky) {
+      lines.push(`- **${cell(f.feature)} › ${cell(f.scenario)}** (${[f.platform, f.variant].filter(Boolean).join(', ')}): passed on attempt ${f.attempts}`);
+    }
+  }
+
+  if (summary.expiredQuarantine.length) {
+    lines.push('', `### ${STATUS_ICON.failed} Expired quarantine`, '');
+    for (const e of summary.expiredQuarantine) lines.push(`- ${cell(expiryMessage(e))}`);
+  }
+
+  if (summary.quarantined.length) {
+    lines.push('', `### ${STATUS_ICON.quarantined} Quarantined`, '', '| Scenario | Status | Issue | Expires |', '| --- | --- | --- | --- |');
+    for (const q of summary.quarantined) {
+      const candidate = q.status === 'passed' ? ' (release candidate)' : '';
+      lines.push(`| ${cell(q.feature)} › ${cell(scenarioTitle({ name: q.scenario, variant: q.variant }))} | ${STATUS_ICON[q.status]} ${q.status}${candidate} | ${cell(q.issue)} | ${q.expires} |`);
+    }
+  }
+
+  const meta = Object.entries(summary.metadata);
+  if (meta.length) {
+    lines.push('', '<details><summary>Run metadata</summary>', '', ...meta.map(([k, v]) => `- ${k}: ${v}`), '', '</details>');
+  }
+  return lines.join('\n') + '\n';
+}
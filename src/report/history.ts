@@ -0,0 +1,233 @@
+/**
+ * Run history and trends
+ *
+ * Every generated report is appended to `reports/history/runs.jsonl` (one run
+ * per line, never rewritten except to replace a re-generated report of the
+ * same run). From that history each scenario gets a pass rate, a flip count
+ * (pass ↔ fail changes between consecutive runs), average and p95 durations
+ * and the commit its current failure streak started at. `trends.html` lists
+ * the flakiest and slowest scenarios.
+ *
+ * @example
+ * ```ts
+ * recordRun(collectResults());
+ * const trends = analyzeHistory(readHistory());
+ * ```
+ *
+ * @remarks
+ * Environment variables:
+ * - HISTORY_WINDOW: Number of most recent runs analyzed (default: 50)
+ */
+import fs from 'fs';
+import path from 'path';
+import { scenarioTitle, type Platform, type ResultStatus, type RunReport } from './results';
+import { escapeHtml, formatDuration } from './dashboard';
+
+export const HISTORY_DIR = path.join(process.cwd(), 'reports', 'history');
+export const HISTORY_FILE = path.join(HISTORY_DIR, 'runs.jsonl');
+export const TRENDS_FILE = path.join(HISTORY_DIR, 'trends.html');
+
+export interface HistoryRun {
+  /** Identifies the run: its run id and start time (run ids are process ids, which repeat) */
+  key: string;
+  recordedAt: string;
+  commit?: string;
+  branch?: string;
+  scenarios: Array<{ id: string; name: string; variant?: string; feature: string; platform: Platform; status: ResultStatus; durationMs: number }>;
+}
+
+export interface ScenarioTrend {
+  id: string;
+  name: string;
+  /** Browser matrix cell the results come from */
+  variant?: string;
+  feature: string;
+  platform: Platform;
+  /** Runs the scenario passed or failed in (skips are ignored) */
+  runs: number;
+  passRate: number;
+  /** Pass ↔ fail changes between consecutive runs */
+  flips: number;
+  /** Runs that only passed after a retry */
+  flakyRuns: number;
+  avgDurationMs: number;
+  p95DurationMs: number;
+  lastStatus: ResultStatus;
+  /** Consecutive failures up to the latest run (skips are ignored) */
+  failingStreak: number;
+  /** Commit of the first run of the current failure streak */
+  firstFailedCommit?: string;
+}
+
+function historyWindow(): number {
+  const n = Number(process.env.HISTORY_WINDOW ?? 50);
+  return Number.isFinite(n) && n > 0 ? n : 50;
+}
+
+/**
+ * Read all recorded runs, oldest first. Unreadable lines are skipped.
+ */
+export function readHistory(file = HISTORY_FILE): HistoryRun[] {
+  if (!fs.existsSync(file)) return [];
+  return fs
+    .readFileSync(file, 'utf8')
+    .split('\n')
+    .filter(Boolean)
+    .flatMap((line) => {
+      try {
+        return [JSON.parse(line) as HistoryRun];
+      } catch {
+        return [];
+      }
+    });
+}
+
+/**
+ * Append a run to the history. Re-generating the report of the same run
+ * replaces its entry instead of counting it twice.
+ *
+ * @returns The recorded run, or undefined when the report has no run id to key it on
+ */
+export function recordRun(report: RunReport, file = HISTORY_FILE): HistoryRun | undefined {
+  if (report.runId === undefined) return undefined;
+  const run: HistoryRun = {
+    key: [report.runId, report.metadata['Started']].filter(Boolean).join('@'),
+    recordedAt: report.generatedAt,
+    commit: report.metadata['Git Commit'],
+    branch: report.metadata['Git Branch'],
+    scenarios: report.scenarios.map((s) => ({ id: s.id, name: s.name, variant: s.variant, feature: s.feature, platform: s.platform, status: s.status, durationMs: s.durationMs })),
+  };
+
+  fs.mkdirSync(path.dirname(file), { recursive: true });
+  const runs = readHistory(file);
+  if (runs.length && runs[runs.length - 1].key === run.key) {
+    runs[runs.length - 1] = run;
+    fs.writeFileSync(file, runs.map((r) => JSON.stringify(r)).join('\n') + '\n');
+  } else {
+    fs.appendFileSync(file, JSON.stringify(run) + '\n');
+  }
+  return run;
+}
+
+function percentile(values: number[], p: number): number {
+  if (!values.length) return 0;
+  const sorted = [...values].sort((a, b) => a - b);
+  return sorted[Math.min(sorted.length - 1, Math.ceil((p / 100) * sorted.length) - 1)];
+}
+
+/**
+ * Per-scenario statistics over the most recent runs.
+ *
+ * @param runs - Recorded runs, oldest first
+ * @param window - How many of the latest runs to analyze (default: HISTORY_WINDOW)
+ */
+export function analyzeHistory(runs: HistoryRun[], window = historyWindow()): ScenarioTrend[] {
+  const byScenario = new Map<string, { info: HistoryRun['scenarios'][number]; results: Array<{ status: ResultStatus; durationMs: number; commit?: string }> }>();
+  for (const run of runs.slice(-window)) {
+    for (const s of run.scenarios) {
+      const entry = byScenario.get(s.id) ?? { info: s, results: [] };
+      entry.info = s;
+      entry.results.push({ status: s.status, durationMs: s.durationMs, commit: run.commit });
+      byScenario.set(s.id, entry);
+    }
+  }
+
+  return [...byScenario.values()].map(({ info, results }) => {
+    // A flaky run counts as a pass here; it is tallied separately in flakyRuns
+    const decided = results
+      .filter((r) => r.status !== 'skipped')
+      .map((r) => ({ ...r, status: r.status === 'flaky' ? ('passed' as const) : r.status }));
+    const durations = decided.map((r) => r.durationMs);
+    let flips = 0;
+    for (let i = 1; i < decided.length; i++) {
+      if (decided[i].status !== decided[i - 1].status) flips++;
+    }
+
+    let streakStart = decided.length;
+    while (streakStart > 0 && decided[streakStart - 1].status === 'failed') streakStart--;
+
+    return {
+      id: info.id,
+      name: info.name,
+      variant: info.variant,
+      feature: info.feature,
+      platform: info.platform,
+      runs: decided.length,
+      passRate: decided.length ? decided.filter((r) => r.status === 'passed').length / decided.length : 0,
+      flips,
+      flakyRuns: results.filter((r) => r.status === 'flaky').length,
+      avgDurationMs: durations.length ? Math.round(durations.reduce((a, b) => a + b, 0) / durations.length) : 0,
+      p95DurationMs: percentile(durations, 95),
+      lastStatus: results[results.length - 1].status,
+      failingStreak: decided.length - streakStart,
+      firstFailedCommit: streakStart < decided.length ? decided[streakStart].commit : undefined,
+    };
+  });
+}
+
+function trendRow(t: ScenarioTrend): string {
+  return `<tr><td>${escapeHtml(t.feature)}</td><td>${escapeHtml(scenarioTitle(t))}</td><td>${t.platform}</td><td>${t.runs}</td><td>${(t.passRate * 100).toFixed(0)}%</td><td>${t.flips}</td><td>${t.flakyRuns}</td><td>${formatDuration(t.avgDurationMs)}</td><td>${formatDuration(t.p95DurationMs)}</td><td class="${t.lastStatus}">${t.lastStatus}</td><td>${escapeHtml(t.firstFailedCommit ?? '')}</td></tr>`;
+}
+
+const TREND_HEADER =
+  '<thead><tr><th>Feature</th><th>Scenario</th><th>Platform</th><th>Runs</th><th>Pass rate</th><th>Flips</th><th>Flaky runs</th><th>Avg</th><th>p95</th><th>Last</th><th>Failing since</th></tr></thead>';
+
+/**
+ * Render the trends page: flakiest scenarios (most flips and retried passes) and slowest (highest p95).
+ *
+ * @param limit - Rows per table (default: 20)
+ */
+export function renderTrends(trends: ScenarioTrend[], runCount: number, limit = 20): string {
+  const flaky = trends
+    .filter((t) => t.flips + t.flakyRuns > 0)
+    .sort((a, b) => b.flips + b.flakyRuns - (a.flips + a.flakyRuns) || a.passRate - b.passRate)
+    .slice(0, limit);
+  const slow = [...trends].sort((a, b) => b.p95DurationMs - a.p95DurationMs).slice(0, limit);
+  const failing = trends.filter((t) => t.failingStreak > 0).sort((a, b) => b.failingStreak - a.failingStreak);
+
+  const table = (rows: ScenarioTrend[], empty: string) =>
+    rows.length ? `<table>${TREND_HEADER}<tbody>${rows.map(trendRow).join('')}</tbody></table>` : `<p class="muted">${empty}</p>`;
+
+  return `<!doctype html>
+<html>
+<head>
+  <meta charset="utf-8"/>
+  <title>Test Trends</title>
+  <style>
+    body { font-family: system-ui, Arial, sans-serif; padding: 16px; max-width: 1200px; margin: auto; }
+    table { border-collapse: collapse; width: 100%; margin-bottom: 16px; }
+    th, td { border: 1px solid #ddd; padding: 6px 8px; text-align: left; }
+    th { background: #f5f5f5; }
+    .passed { color: #2e7d32; } .failed { color: #c62828; } .skipped { color: #9e9e9e; } .flaky { color: #ef6c00; }
+    .muted { color: #666; }
+  </style>
+</head>
+<body>
+  <h1>Test Trends</h1>
+  <p class="muted">${runCount} runs analyzed · generated ${escapeHtml(new Date().toLocaleString())}</p>
+  <h2>Currently failing</h2>
+  ${table(failing, 'Nothing is failing.')}
+  <h2>Flakiest</h2>
+  ${table(flaky, 'No scenario changed status between runs or needed a retry.')}
+  <h2>Slowest (p95)</h2>
+  ${table(slow, 'No runs recorded yet.')}
+</body>
+</html>`;
+}
+
+/**
+ * Record a run and regenerate the trends page. A report without a run id is
+ * not recorded, but the page is still written from the runs recorded so far.
+ *
+ * @param dir - History directory (default: HISTORY_DIR)
+ * @returns Statistics of every scenario in the analyzed window
+ */
+export function updateHistory(report: RunReport, dir = HISTORY_DIR): ScenarioTrend[] {
+  const file = path.join(dir, path.basename(HISTORY_FILE));
+  fs.mkdirSync(dir, { recursive: true });
+  recordRun(report, file);
+  const runs = readHistory(file).slice(-historyWindow());
+  const trends = analyzeHistory(runs);
+  fs.writeFileSync(path.join(dir, path.basename(TRENDS_FILE)), renderTrends(trends, runs.length));
+  return trends;
+}
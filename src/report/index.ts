@@ -0,0 +1,102 @@
+/**
+ * Unified reporting pipeline
+ *
+ * Merges the Cucumber results, the appendReport entries and the WDIO Android
+ * results into one RunReport, then writes an HTML dashboard and a
+ * machine-readable summary JSON for downstream tools, and records the run in
+ * the history store behind the trends page (see history.ts). Scenarios listed
+ * in config/quarantine.json are marked as quarantined (see src/quarantine.ts).
+ * report.js runs it after the cucumber-html-reporter output.
+ *
+ * @example
+ * ```ts
+ * const summary = buildReport();
+ * if (summary.totals.failed) process.exitCode = 1;
+ * ```
+ */
+import fs from 'fs';
+import { collectSystemMetadata, readRunId, readRunMetadata } from '@/metadata';
+import { expiredEntries, quarantineOf, readQuarantine } from '@/quarantine';
+import { summarize, type ReportSummary, type RunReport } from './results';
+import { readApiResults, readCucumberResults, readWdioResults } from './sources';
+import { renderDashboard } from './dashboard';
+import { updateHistory } from './history';
+
+export * from './results';
+export { readApiResults, readCucumberResults, readWdioResults } from './sources';
+export { renderDashboard } from './dashboard';
+export { toJUnitXml, toTap, toMarkdown } from './exporters';
+export { mergeApiReports, mergeCucumberReports, VARIANT_TAG_PREFIX, type CucumberReportPart } from './merge';
+export * from './history';
+
+export const DASHBOARD_FILE = 'test-dashboard.html';
+export const SUMMARY_FILE = 'test-summary.json';
+
+export interface ReportSources {
+  /** Cucumber JSON report (default: 'cucumber-report.json') */
+  cucumberJson?: string;
+  /** appendReport JSON file (default: 'api_test_report.json') */
+  apiJson?: string;
+  /** WDIO html-nice reporter output directory (default: 'android/report') */
+  wdioDir?: string;
+  /** Quarantine list (default: 'config/quarantine.json') */
+  quarantineFile?: string;
+}
+
+export interface BuildReportOptions extends ReportSources {
+  /** Dashboard path (default: 'test-dashboard.html') */
+  output?: string;
+  /** Summary JSON path (default: 'test-summary.json') */
+  summary?: string;
+  /** Extra key/values shown with the run metadata */
+  metadata?: Record<string, string>;
+  /** Record the run in reports/history and regenerate the trends page (default: true) */
+  history?: boolean;
+}
+
+/**
+ * Metadata shown in every report: machine facts plus what the run recorded
+ * (browser, profile, environment, times, custom config values).
+ */
+export function reportMetadata(extra: Record<string, string> = {}): Record<string, string> {
+  return { ...collectSystemMetadata(), ...readRunMetadata(), ...extra };
+}
+
+/**
+ * Read every result source into one report, marking quarantined scenarios.
+ */
+export function collectResults(sources: ReportSources = {}, metadata: Record<string, string> = {}): RunReport {
+  const quarantine = readQuarantine(sources.quarantineFile);
+  // Results written before this run started belong to earlier runs
+  const started = readRunMetadata()['Started'];
+  const scenarios = [
+    ...readCucumberResults(sources.cucumberJson),
+    ...readApiResults(sources.apiJson, started),
+    ...readWdioResults(sources.wdioDir, started),
+  ];
+  for (const scenario of scenarios) {
+    const entry = quarantineOf(quarantine, scenario);
+    if (entry) scenario.quarantine = entry;
+  }
+  return {
+    generatedAt: new Date().toISOString(),
+    runId: readRunId(),
+    metadata: reportMetadata(metadata),
+    scenarios,
+    expiredQuarantine: expiredEntries(quarantine),
+  };
+}
+
+/**
+ * Collect all results, write the dashboard and the summary JSON and update the run history.
+ *
+ * @returns The summary that was written
+ */
+export function buildReport(options: BuildReportOptions = {}): ReportSummary {
+  const report = collectResults(options, options.metadata);
+  const summary = summarize(report);
+  fs.writeFileSync(options.output ?? DASHBOARD_FILE, renderDashboard(report, summary));
+  fs.writeFileSync(options.summary ?? SUMMARY_FILE, JSON.stringify(summary, null, 2));
+  if (options.history !== false) updateHistory(report);
+  return summary;
+}
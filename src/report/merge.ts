@@ -0,0 +1,86 @@
+/**
+ * Cucumber report merging
+ *
+ * Child runs started side by side (browser matrix cells, shards) each write
+ * their own Cucumber JSON report. mergeCucumberReports() combines them into
+ * one `cucumber-report.json` that report.js reads like the output of a single
+ * run. Scenarios of a matrix cell carry a `@variant:<name>` tag so the readers
+ * can tell the same scenario apart per browser/profile. mergeApiReports() does
+ * the same for the appendReport entries (`api_test_report.json`).
+ *
+ * @example
+ * ```ts
+ * mergeCucumberReports([
+ *   { path: 'reports/matrix/chromium/cucumber-report.json', variant: 'chromium' },
+ *   { path: 'reports/matrix/firefox/cucumber-report.json', variant: 'firefox' },
+ * ]);
+ * ```
+ */
+import fs from 'fs';
+
+/** Tag prefix marking the matrix cell a scenario ran in */
+export const VARIANT_TAG_PREFIX = '@variant:';
+
+export interface CucumberReportPart {
+  /** Cucumber JSON report of one child run */
+  path: string;
+  /** Matrix cell name, e.g. 'firefox' or 'webkit+iphone13' */
+  variant?: string;
+}
+
+/**
+ * Merge Cucumber JSON reports. Scenarios of the same feature (and variant)
+ * end up under one feature entry. Missing or unreadable parts are skipped.
+ *
+ * @param out - Merged report path (default: 'cucumber-report.json')
+ * @returns Number of scenarios in the merged report
+ */
+export function mergeCucumberReports(parts: CucumberReportPart[], out = 'cucumber-report.json'): number {
+  const features = new Map<string, any>();
+  let scenarios = 0;
+  for (const part of parts) {
+    let report: any;
+    try {
+      report = JSON.parse(fs.readFileSync(part.path, 'utf8'));
+    } catch {
+      continue;
+    }
+    if (!Array.isArray(report)) continue;
+    for (const feature of report) {
+      const elements = (feature.elements ?? []).map((element: any) =>
+        part.variant ? { ...element, tags: [...(element.tags ?? []), { name: `${VARIANT_TAG_PREFIX}${part.variant}`, line: element.line }] } : element
+      );
+      scenarios += elements.filter((e: any) => e.type !== 'background').length;
+      const key = `${feature.uri ?? feature.id}|${part.variant ?? ''}`;
+      const merged = features.get(key);
+      if (merged) merged.elements.push(...elements);
+      else features.set(key, { ...feature, elements });
+    }
+  }
+  fs.writeFileSync(out, JSON.stringify([...features.values()], null, 2));
+  return scenarios;
+}
+
+/**
+ * Merge appendReport JSON files. Entries of a matrix cell get a `variant`
+ * field. Missing or unreadable parts are skipped; nothing is written when no
+ * part has entries.
+ *
+ * @param out - Merged report path (default: 'api_test_report.json')
+ * @returns Number of entries in the merged report
+ */
+export function mergeApiReports(parts: CucumberReportPart[], out = 'api_test_report.json'): number {
+  const entries: any[] = [];
+  for (const part of parts) {
+    let report: any;
+    try {
+      report = JSON.parse(fs.readFileSync(part.path, 'utf8'));
+    } catch {
+      continue;
+    }
+    if (!Array.isArray(report)) continue;
+    entries.push(...report.map((entry) => (part.variant ? { ...entry, variant: part.variant } : entry)));
+  }
+  if (entries.length) fs.writeFileSync(out, JSON.stringify(entries, null, 2));
+  return entries.length;
+}
@@ -0,0 +1,161 @@
+/**
+ * Unified result model
+ *
+ * Every result source (Cucumber JSON, appendReport entries, WDIO reports) is
+ * read into these shapes so the dashboard, the summary JSON and the exporters
+ * only deal with one format.
+ */
+import { type QuarantineEntry } from '@/quarantine';
+import { type AttemptRecord } from '@/retry';
+
+/** 'flaky': failed at least once, then passed on a retry */
+export type ResultStatus = 'passed' | 'failed' | 'skipped' | 'flaky';
+
+/** Where a scenario ran */
+export type Platform = 'web' | 'api' | 'android';
+
+/** Which report the scenario was read from */
+export type ResultSource = 'cucumber' | 'api' | 'wdio';
+
+export interface ReportAttachment {
+  mimeType: string;
+  /** Base64 encoded body */
+  data?: string;
+  /** File path relative to the project root, for attachments kept on disk */
+  path?: string;
+}
+
+export interface ReportStep {
+  keyword?: string;
+  name: string;
+  status: ResultStatus;
+  durationMs: number;
+  error?: string;
+  attachments: ReportAttachment[];
+}
+
+export interface ReportScenario {
+  id: string;
+  name: string;
+  feature: string;
+  /** Feature file or spec the scenario came from */
+  uri?: string;
+  platform: Platform;
+  source: ResultSource;
+  status: ResultStatus;
+  durationMs: number;
+  tags: string[];
+  error?: string;
+  steps: ReportStep[];
+  /** Every attempt, when the scenario was retried */
+  attempts?: AttemptRecord[];
+  /** Browser matrix cell the scenario ran in, e.g. 'firefox' (see merge.ts) */
+  variant?: string;
+  /** Quarantine entry covering the scenario, see src/quarantine.ts */
+  quarantine?: QuarantineEntry;
+}
+
+export interface RunReport {
+  generatedAt: string;
+  /** Run the results belong to, unset when no run recorded its metadata */
+  runId?: number;
+  metadata: Record<string, string>;
+  scenarios: ReportScenario[];
+  /** Quarantine entries past their expiry date; they fail the run */
+  expiredQuarantine?: QuarantineEntry[];
+}
+
+export interface QuarantinedResult {
+  feature: string;
+  scenario: string;
+  platform: Platform;
+  variant?: string;
+  status: ResultStatus;
+  issue: string;
+  expires: string;
+}
+
+export interface StatusCounts {
+  total: number;
+  passed: number;
+  failed: number;
+  skipped: number;
+  flaky: number;
+  durationMs: number;
+}
+
+export interface ReportSummary {
+  generatedAt: string;
+  metadata: Record<string, string>;
+  totals: StatusCounts;
+  byPlatform: Record<string, StatusCounts>;
+  byFeature: Record<string, StatusCounts & { platform: Platform }>;
+  /** Per browser matrix cell; empty when the run was not a matrix run */
+  byVariant: Record<string, StatusCounts>;
+  /** Failed scenarios, except quarantined ones */
+  failures: Array<{ feature: string; scenario: string; platform: Platform; variant?: string; error?: string }>;
+  flaky: Array<{ feature: string; scenario: string; platform: Platform; variant?: string; attempts: number }>;
+  /** Every quarantined scenario that ran */
+  quarantined: QuarantinedResult[];
+  /** Quarantined scenarios that passed: their bug may be fixed */
+  releaseCandidates: QuarantinedResult[];
+  expiredQuarantine: QuarantineEntry[];
+}
+
+/**
+ * Scenario name with its matrix cell, e.g. 'Login [firefox]'.
+ */
+export function scenarioTitle(scenario: Pick<ReportScenario, 'name' | 'variant'>): string {
+  return scenario.variant ? `${scenario.name} [${scenario.variant}]` : scenario.name;
+}
+
+function emptyCounts(): StatusCounts {
+  return { total: 0, passed: 0, failed: 0, skipped: 0, flaky: 0, durationMs: 0 };
+}
+
+function count(counts: StatusCounts, scenario: ReportScenario): void {
+  counts.total++;
+  counts[scenario.status]++;
+  counts.durationMs += scenario.durationMs;
+}
+
+/**
+ * Compute totals and per-platform / per-feature breakdowns of a run. The
+ * counts keep quarantined scenarios' real status; only the failure list
+ * leaves them out.
+ */
+export function summarize(report: RunReport): ReportSummary {
+  const summary: ReportSummary = {
+    generatedAt: report.generatedAt,
+    metadata: report.metadata,
+    totals: emptyCounts(),
+    byPlatform: {},
+    byFeature: {},
+    byVariant: {},
+    failures: [],
+    flaky: [],
+    quarantined: [],
+    releaseCandidates: [],
+    expiredQuarantine: report.expiredQuarantine ?? [],
+  };
+
+  for (const scenario of report.scenarios) {
+    count(summary.totals, scenario);
+    count((summary.byPlatform[scenario.platform] ??= emptyCounts()), scenario);
+    count((summary.byFeature[scenario.feature] ??= { ...emptyCounts(), platform: scenario.platform }), scenario);
+    if (scenario.variant) count((summary.byVariant[scenario.variant] ??= emptyCounts()), scenario);
+    if (scenario.quarantine) {
+      const { issue, expires } = scenario.quarantine;
+      const result = { feature: scenario.feature, scenario: scenario.name, platform: scenario.platform, variant: scenario.variant, status: scenario.status, issue, expires };
+      summary.quarantined.push(result);
+      if (scenario.status === 'passed') summary.releaseCandidates.push(result);
+    }
+    if (scenario.status === 'failed' && !scenario.quarantine) {
+      summary.failures.push({ feature: scenario.feature, scenario: scenario.name, platform: scenario.platform, variant: scenario.variant, error: scenario.error });
+    }
+    if (scenario.status === 'flaky') {
+      summary.flaky.push({ feature: scenario.feature, scenario: scenario.name, platform: scenario.platform, variant: scenario.variant, attempts: scenario.attempts?.length ?? 0 });
+    }
+  }
+  return summary;
+}
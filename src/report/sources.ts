@@ -0,0 +1,237 @@
+/**
+ * Result readers
+ *
+ * Turn each report the project produces into ReportScenarios:
+ * - `cucumber-report.json` (Playwright / Selenium features, platform 'web')
+ * - `api_test_report.json` written by appendReport (platform 'api')
+ * - `android/report/*.json` written by the WDIO html-nice reporter (platform 'android')
+ *
+ * A missing or unreadable source yields no scenarios.
+ */
+import fs from 'fs';
+import path from 'path';
+import { ATTEMPTS_MEDIA_TYPE, isFlaky, type AttemptRecord } from '@/retry';
+import { type ReportAttachment, type ReportScenario, type ReportStep, type ResultStatus } from './results';
+import { VARIANT_TAG_PREFIX } from './merge';
+
+function readJson(filePath: string): any {
+  try {
+    return JSON.parse(fs.readFileSync(filePath, 'utf8'));
+  } catch {
+    return undefined;
+  }
+}
+
+/** Failed wins over skipped, skipped over passed */
+function worstStatus(statuses: ResultStatus[]): ResultStatus {
+  if (statuses.includes('failed')) return 'failed';
+  return statuses.includes('skipped') ? 'skipped' : 'passed';
+}
+
+// ============================================================================
+// CUCUMBER
+// ============================================================================
+
+function cucumberStatus(status: string | undefined): ResultStatus {
+  if (status === 'passed') return 'passed';
+  if (status === 'skipped') return 'skipped';
+  // pending, undefined and ambiguous steps fail a strict run
+  return 'failed';
+}
+
+/** Attempt list the After hook attaches to the last attempt of a retried scenario */
+function cucumberAttempts(steps: ReportStep[]): AttemptRecord[] | undefined {
+  const attachment = steps.flatMap((s) => s.attachments).find((a) => a.mimeType === ATTEMPTS_MEDIA_TYPE && a.data);
+  if (!attachment) return undefined;
+  try {
+    return JSON.parse(Buffer.from(attachment.data!, 'base64').toString('utf8'));
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * Read Cucumber's JSON formatter output. Only the last attempt of a retried
+ * scenario is in the file; it is 'flaky' when an earlier attempt failed.
+ * Scenarios of a merged browser matrix report keep their cell as `variant`.
+ *
+ * @param jsonPath - Path to the Cucumber JSON report (default: 'cucumber-report.json')
+ */
+export function readCucumberResults(jsonPath = 'cucumber-report.json'): ReportScenario[] {
+  const features = readJson(jsonPath);
+  if (!Array.isArray(features)) return [];
+
+  const scenarios: ReportScenario[] = [];
+  for (const feature of features) {
+    for (const element of feature.elements ?? []) {
+      if (element.type === 'background') continue;
+      const steps: ReportStep[] = (element.steps ?? []).map((step: any) => ({
+        keyword: step.keyword?.trim(),
+        name: step.hidden ? step.keyword : step.name,
+        status: cucumberStatus(step.result?.status),
+        durationMs: Math.round((step.result?.duration ?? 0) / 1e6),
+        error: step.result?.error_message,
+        attachments: (step.embeddings ?? []).map(
+          (e: any): ReportAttachment => ({ mimeType: e.mime_type ?? e.media?.type ?? 'text/plain', data: e.data })
+        ),
+      }));
+      const attempts = cucumberAttempts(steps);
+      const status = worstStatus(steps.map((s) => s.status));
+      const tags: string[] = (element.tags ?? []).map((t: any) => t.name);
+      const variant = tags.find((t) => t.startsWith(VARIANT_TAG_PREFIX))?.slice(VARIANT_TAG_PREFIX.length);
+      // Example rows of a Scenario Outline share the outline's id; the row's line tells them apart
+      const row = /outline|template/i.test(element.keyword ?? '') ? `;${element.line}` : '';
+      const id = (element.id ?? `${feature.id};${element.name}`) + row;
+
+      scenarios.push({
+        id: variant ? `${id};${variant}` : id,
+        name: element.name,
+        feature: feature.name,
+        uri: feature.uri,
+        platform: 'web',
+        source: 'cucumber',
+        // Hooks count too: a failing After hook fails the scenario
+        status: status === 'passed' && attempts && isFlaky(attempts) ? 'flaky' : status,
+        durationMs: steps.reduce((sum, s) => sum + s.durationMs, 0),
+        tags: tags.filter((t) => !t.startsWith(VARIANT_TAG_PREFIX)),
+        variant,
+        error: steps.find((s) => s.error)?.error ?? (attempts ? attempts.find((a) => a.error)?.error : undefined),
+        steps,
+        attempts,
+      });
+    }
+  }
+  return scenarios;
+}
+
+// ============================================================================
+// APPEND REPORT (API)
+// ============================================================================
+
+function apiStatus(status: string | undefined): ResultStatus | undefined {
+  if (status === 'pass') return 'passed';
+  if (status === 'fail') return 'failed';
+  if (status === 'skip') return 'skipped';
+  return undefined; // 'info' entries don't affect the outcome
+}
+
+/**
+ * Read entries written by appendReport, grouped into one scenario per `scenario` name.
+ *
+ * @param jsonPath - Path to the appendReport JSON file (default: 'api_test_report.json')
+ * @param since - Start of the run (ISO time); appendReport keeps adding to the
+ *   file, so entries written before it belong to earlier runs and are left out
+ */
+export function readApiResults(jsonPath = 'api_test_report.json', since?: string): ReportScenario[] {
+  const entries = readJson(jsonPath);
+  if (!Array.isArray(entries)) return [];
+
+  const byScenario = new Map<string, any[]>();
+  for (const entry of entries) {
+    if (since && entry.timestamp && entry.timestamp < since) continue;
+    const name = entry.scenario ?? entry.name ?? entry.step ?? 'API checks';
+    // Matrix cells (see merge.ts) report the same scenario once each
+    const key = entry.variant ? `${name};${entry.variant}` : name;
+    if (!byScenario.has(key)) byScenario.set(key, []);
+    byScenario.get(key)!.push(entry);
+  }
+
+  return [...byScenario.entries()].map(([key, group]) => {
+    const name = group[0].scenario ?? group[0].name ?? group[0].step ?? 'API checks';
+    const steps: ReportStep[] = group.map((entry) => ({
+      name: entry.step ?? entry.message ?? name,
+      status: apiStatus(entry.status) ?? 'passed',
+      durationMs: Number(entry.durationMs ?? 0),
+      error: entry.status === 'fail' ? entry.message : undefined,
+      attachments: [],
+    }));
+    const outcomes = group.map((entry) => apiStatus(entry.status)).filter((s): s is ResultStatus => !!s);
+    return {
+      id: `api;${key}`,
+      name,
+      feature: group[0].feature ?? 'API',
+      uri: jsonPath,
+      platform: 'api' as const,
+      source: 'api' as const,
+      status: worstStatus(outcomes),
+      durationMs: steps.reduce((sum, s) => sum + s.durationMs, 0),
+      tags: [],
+      error: steps.find((s) => s.error)?.error,
+      steps,
+      ...(group[0].variant && { variant: group[0].variant }),
+    };
+  });
+}
+
+// ============================================================================
+// WDIO (ANDROID)
+// ============================================================================
+
+function wdioStatus(state: string | undefined): ResultStatus {
+  if (state === 'passed') return 'passed';
+  if (state === 'failed') return 'failed';
+  return 'skipped'; // pending / skipped
+}
+
+function wdioAttachments(test: any): ReportAttachment[] {
+  return (test.events ?? [])
+    .filter((e: any) => e?.type === 'screenshot' && typeof e.value === 'string')
+    .map((e: any): ReportAttachment =>
+      /\.(png|jpe?g)$/i.test(e.value)
+        ? { mimeType: 'image/png', path: path.relative(process.cwd(), path.resolve(e.value)) }
+        : { mimeType: 'image/png', data: e.value }
+    );
+}
+
+function collectWdioTests(suite: any, parents: string[], out: Array<{ test: any; feature: string; file?: string }>): void {
+  const titles = [...parents, suite.title].filter(Boolean);
+  for (const test of suite.tests ?? []) out.push({ test, feature: titles.join(' › '), file: suite.file });
+  for (const child of suite.suites ?? []) collectWdioTests(child, titles, out);
+}
+
+/**
+ * Read the JSON files the WDIO html-nice reporter writes for the Android suite.
+ *
+ * @param dir - Reporter output directory (default: 'android/report')
+ * @param since - Start of the run (ISO time); report files written before it
+ *   are left over from an earlier Android run and are left out
+ */
+export function readWdioResults(dir = 'android/report', since?: string): ReportScenario[] {
+  if (!fs.existsSync(dir)) return [];
+
+  const scenarios: ReportScenario[] = [];
+  const files = fs
+    .readdirSync(dir)
+    .filter((f) => f.endsWith('.json'))
+    .filter((f) => !since || fs.statSync(path.join(dir, f)).mtimeMs >= Date.parse(since))
+    .sort();
+  for (const file of files) {
+    const report = readJson(path.join(dir, file));
+    if (!report || !Array.isArray(report.suites)) continue;
+
+    const tests: Array<{ test: any; feature: string; file?: string }> = [];
+    for (const suite of report.suites) collectWdioTests(suite, [], tests);
+
+    for (const { test, feature, file: specFile } of tests) {
+      // Mocha retries: passing after a retry is a flake
+      const status = test.state === 'passed' && Number(test.retries ?? 0) > 0 ? 'flaky' : wdioStatus(test.state);
+      const error = test.error?.message ?? test.errors?.[0]?.message;
+      const durationMs = Number(test._duration ?? 0);
+      scenarios.push({
+        // uids restart in every worker's report file
+        id: `wdio;${file};${test.uid ?? test.fullTitle}`,
+        name: test.title,
+        feature,
+        uri: specFile ? path.relative(process.cwd(), specFile) : undefined,
+        platform: 'android',
+        source: 'wdio',
+        status,
+        durationMs,
+        tags: [],
+        error,
+        steps: [{ name: test.title, status: wdioStatus(test.state), durationMs, error, attachments: wdioAttachments(test) }],
+      });
+    }
+  }
+  return scenarios;
+}
@@ -0,0 +1,56 @@
+/**
+ * Scenario retries and flake classification
+ *
+ * Retries are run by Cucumber itself (cucumber.js passes `--retry` and
+ * `--retry-tag-filter` from the variables below). Every attempt gets a fresh
+ * browser context from the Before/After hooks and keeps its own screenshot,
+ * trace and recording. The hooks log each attempt here; when the last attempt
+ * finishes, the attempt list is attached to the scenario so the reports can
+ * mark a scenario that failed and then passed as "flaky" instead of "passed".
+ *
+ * @remarks
+ * Environment variables:
+ * - RETRIES: How many times a failing scenario is retried (default: 0)
+ * - RETRY_TAGS: Tag expression limiting retries to matching scenarios,
+ *   e.g. '@flaky or @network' (default: every scenario)
+ */
+
+/** Media type of the attempt list attached to the last attempt of a retried scenario */
+export const ATTEMPTS_MEDIA_TYPE = 'application/vnd.e2e.attempts+json';
+
+export interface AttemptRecord {
+  /** 1 for the first run, 2 for the first retry, ... */
+  attempt: number;
+  status: 'passed' | 'failed' | 'skipped';
+  error?: string;
+  /** Screenshots, traces and recordings of this attempt, relative to the project root */
+  artifacts: string[];
+}
+
+// Attempts seen per pickle in this worker; retries of a scenario run in the same worker
+const attemptLog = new Map<string, AttemptRecord[]>();
+
+/**
+ * Number of attempts of a scenario already finished in this worker (0 on the first run).
+ */
+export function attemptCount(pickleId: string): number {
+  return attemptLog.get(pickleId)?.length ?? 0;
+}
+
+/**
+ * Log an attempt of a scenario.
+ *
+ * @returns Every attempt of the scenario so far, oldest first
+ */
+export function recordAttempt(pickleId: string, record: AttemptRecord): AttemptRecord[] {
+  const attempts = [...(attemptLog.get(pickleId) ?? []), record];
+  attemptLog.set(pickleId, attempts);
+  return attempts;
+}
+
+/**
+ * Whether a scenario's attempts make it flaky: failed at least once, then passed.
+ */
+export function isFlaky(attempts: AttemptRecord[]): boolean {
+  return attempts.length > 1 && attempts[attempts.length - 1].status === 'passed' && attempts.some((a) => a.status === 'failed');
+}
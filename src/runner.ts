@@ -0,0 +1,387 @@
+/**
+ * Test runs
+ *
+ * Turns run options (features, tags, environment, browser, ...) into a
+ * `cucumber-js` or WDIO child process, regenerates the reports afterwards and
+ * maps the outcome to an exit code. Used by the runner CLI (system/cli.ts) and
+ * the control server (src/server).
+ *
+ * A browser matrix runs the same features once per browser (and optionally
+ * per profile) as parallel child runs, each in its own output directory under
+ * `reports/matrix/`, then merges their results into `cucumber-report.json`.
+ * Scenarios tagged `@skip-<browser>` are left out of that browser's run.
+ *
+ * Sharding splits the features into shards of about equal run time (see
+ * src/shard.ts). `runShards()` runs one shard, or every shard through a local
+ * pool of child runs with their own output directories under `reports/shards/`,
+ * and merges their results the same way.
+ *
+ * @example
+ * ```ts
+ * const started = Date.now();
+ * const code = await runCucumber({ features: ['saucedemo', 'features/api/*.feature'], tags: '@smoke', workers: 2 });
+ * await generateReports(); // also when the run failed
+ * process.exitCode = runOutcome(code, started);
+ * ```
+ */
+import { spawn, type SpawnOptions } from 'child_process';
+import fs from 'fs';
+import path from 'path';
+import { FEATURES_DIR, listFeatures } from '@/features';
+import { exportReport, generateHtmlReport, type ExportFormat } from '@/playwright';
+import { mergeApiReports, mergeCucumberReports, readCucumberResults, type CucumberReportPart } from '@/report';
+import { mergeRunMetadata, setRunMetadata } from '@/metadata';
+import { currentRunId } from '@/output';
+import { expiredEntries, expiryMessage, quarantineOf, readQuarantine } from '@/quarantine';
+import { mergeTimelines, TIMELINE_DIR } from '@/timeline';
+import { mergeRecordedHars } from '@/har';
+import { historicalDurations, planShards, type Shard, type ShardStrategy } from '@/shard';
+
+export const BROWSERS = ['chromium', 'firefox', 'webkit'];
+export const MATRIX_DIR = path.join('reports', 'matrix');
+export const SHARDS_DIR = path.join('reports', 'shards');
+export const EXPORT_FORMATS: ExportFormat[] = ['junit', 'tap', 'markdown'];
+
+/** Process exit codes of a run */
+export const EXIT_CODES = {
+  /** Every scenario passed (or was skipped) */
+  passed: 0,
+  /** At least one scenario failed */
+  failed: 1,
+  /** Invalid command line */
+  usage: 2,
+  /** The run could not start or crashed before reporting results */
+  error: 3,
+} as const;
+
+export interface RunOptions {
+  /** Feature names ('saucedemo'), paths (optionally with ':line') or globs (default: every feature) */
+  features?: string[];
+  /** Cucumber tag expression, e.g. '@smoke and not @wip' */
+  tags?: string;
+  /** TEST_ENV config to run against, see src/environment.ts */
+  env?: string;
+  /** Browser engine: 'chromium', 'firefox' or 'webkit' */
+  browser?: string;
+  /** E2E_PROFILE value, see src/profiles.ts */
+  profile?: string;
+  /** Parallel cucumber-js workers (default: 1, serial) */
+  workers?: number;
+  /** Retries of failing scenarios, see src/retry.ts */
+  retries?: number;
+  /** Tag expression limiting retries */
+  retryTags?: string;
+  /** Run without a visible browser window (default: HEADLESS) */
+  headless?: boolean;
+  /** Overwrite visual baselines instead of comparing, see src/visual.ts */
+  updateSnapshots?: boolean;
+}
+
+function globToRegExp(glob: string): RegExp {
+  const source = glob
+    .split(/(\*\*\/|\*\*|\*|\?)/)
+    .map((part) => {
+      if (part === '**/') return '(?:.*/)?';
+      if (part === '**') return '.*';
+      if (part === '*') return '[^/]*';
+      if (part === '?') return '[^/]';
+      return part.replace(/[.+^${}()|[\]\\]/g, '\\$&');
+    })
+    .join('');
+  return new RegExp(`^${source}$`);
+}
+
+/**
+ * Resolve feature arguments to paths cucumber-js accepts. A bare name means
+ * `features/<name>/<name>.feature` (or `features/<name>.feature`); globs match
+ * feature files relative to the project root or to `features/`.
+ *
+ * @throws Error naming the first argument that matches nothing
+ */
+export function resolveFeatures(patterns: string[]): string[] {
+  const resolved: string[] = [];
+  for (const pattern of patterns) {
+    const normalized = pattern.split(path.sep).join('/').replace(/^\.\//, '');
+    if (/[*?]/.test(normalized)) {
+      const matcher = globToRegExp(normalized);
+      const matches = listFeatures()
+        .map((f) => f.path)
+        .filter((p) => matcher.test(p) || matcher.test(p.replace(/^features\//, '')));
+      if (!matches.length) throw new Error(`No feature matches "${pattern}"`);
+      resolved.push(...matches);
+      continue;
+    }
+    const candidates = [
+      path.join(FEATURES_DIR, normalized, `${normalized}.feature`),
+      path.join(FEATURES_DIR, `${normalized}.feature`),
+      normalized,
+      path.join(FEATURES_DIR, normalized),
+    ];
+    const found = candidates.find((c) => fs.existsSync(c.replace(/(:\d+)+$/, '')));
+    if (!found) throw new Error(`Feature not found: ${pattern} (tried ${candidates.map((c) => path.relative(process.cwd(), path.resolve(c))).join(', ')})`);
+    resolved.push(path.relative(process.cwd(), path.resolve(found)).split(path.sep).join('/'));
+  }
+  return [...new Set(resolved)];
+}
+
+/**
+ * cucumber-js arguments for the options (the default profile in cucumber.js adds the rest).
+ */
+export function cucumberArgs(options: RunOptions): string[] {
+  return [
+    ...(options.features?.length ? resolveFeatures(options.features) : []),
+    ...(options.tags ? ['--tags', options.tags] : []),
+    ...(options.workers && options.workers > 1 ? ['--parallel', String(options.workers)] : []),
+  ];
+}
+
+/**
+ * Environment of the child process: the options expressed as the variables the
+ * framework reads.
+ *
+ * @throws Error for an unknown browser
+ */
+export function runEnv(options: RunOptions): NodeJS.ProcessEnv {
+  if (options.browser && !BROWSERS.includes(options.browser)) {
+    throw new Error(`Unknown browser "${options.browser}", expected one of: ${BROWSERS.join(', ')}`);
+  }
+  const env: NodeJS.ProcessEnv = { ...process.env };
+  if (options.env) env.TEST_ENV = options.env;
+  if (options.browser) env.E2E_BROWSER = options.browser;
+  if (options.profile) env.E2E_PROFILE = options.profile;
+  if (options.retries !== undefined) env.RETRIES = String(options.retries);
+  if (options.retryTags) env.RETRY_TAGS = options.retryTags;
+  if (options.headless !== undefined) env.HEADLESS = String(options.headless);
+  if (options.updateSnapshots) env.UPDATE_SNAPSHOTS = 'true';
+  return env;
+}
+
+function prefixLines(stream: NodeJS.ReadableStream | null, prefix: string, out: NodeJS.WriteStream): void {
+  let buffer = '';
+  stream?.on('data', (chunk) => {
+    buffer += chunk;
+    const lines = buffer.split('\n');
+    buffer = lines.pop() ?? '';
+    for (const line of lines) out.write(`${prefix} ${line}\n`);
+  });
+  stream?.on('end', () => buffer && out.write(`${prefix} ${buffer}\n`));
+}
+
+/**
+ * @param prefix - Prefix every output line, to tell apart child runs running side by side
+ */
+function run(command: string, args: string[], options: SpawnOptions = {}, prefix?: string): Promise<number> {
+  return new Promise((resolve) => {
+    const child = spawn(command, args, { stdio: prefix ? ['ignore', 'pipe', 'pipe'] : 'inherit', cwd: process.cwd(), ...options });
+    if (prefix) {
+      prefixLines(child.stdout, prefix, process.stdout);
+      prefixLines(child.stderr, prefix, process.stderr);
+    }
+    child.on('error', (e) => {
+      console.error(`Could not start ${command}: ${e.message}`);
+      resolve(EXIT_CODES.error);
+    });
+    child.on('close', (code, signal) => resolve(code ?? (signal ? EXIT_CODES.error : 0)));
+  });
+}
+
+/**
+ * Run the Cucumber features, streaming their output.
+ *
+ * @returns cucumber-js exit code
+ */
+export function runCucumber(options: RunOptions, extraArgs: string[] = []): Promise<number> {
+  // Metadata this process records about the run (e.g. the shard) joins the child's, see src/output.ts
+  const env = { ...runEnv(options), E2E_RUN_ID: String(currentRunId()) };
+  return run('npx', ['cucumber-js', ...cucumberArgs(options), ...extraArgs], { env });
+}
+
+export interface MatrixCell {
+  /** Name shown in the reports, e.g. 'firefox' or 'webkit+iphone13' */
+  name: string;
+  browser: string;
+  /** E2E_PROFILE of the cell */
+  profile?: string;
+  /** E2E_OUTPUT_DIR of the cell's child run */
+  outputDir: string;
+}
+
+/**
+ * One cell per browser, or per browser and profile when profiles are given.
+ *
+ * @param profiles - E2E_PROFILE values, e.g. ['desktop', 'iphone13,locale-de']
+ * @throws Error for an unknown browser
+ */
+export function matrixCells(browsers: string[] = BROWSERS, profiles: string[] = []): MatrixCell[] {
+  const unknown = browsers.filter((b) => !BROWSERS.includes(b));
+  if (unknown.length) throw new Error(`Unknown browser ${unknown.join(', ')}, expected: ${BROWSERS.join(', ')}`);
+  return browsers.flatMap((browser) =>
+    (profiles.length ? profiles : [undefined]).map((profile) => {
+      const name = profile ? `${browser}+${profile.split(',').map((p) => p.trim()).join('+')}` : browser;
+      return { name, browser, profile, outputDir: path.join(MATRIX_DIR, name.replace(/[^\w+.-]/g, '_')) };
+    })
+  );
+}
+
+/**
+ * Tag expression of a browser's run: the requested tags minus `@skip-<browser>`.
+ */
+export function browserTags(tags: string | undefined, browser: string): string {
+  return tags ? `(${tags}) and not @skip-${browser}` : `not @skip-${browser}`;
+}
+
+/**
+ * Merge the output of child runs into the project root: Cucumber JSON, the
+ * appendReport entries, the timelines (in place of an earlier run's), the
+ * run metadata and the HARs recorded in NETWORK_MODE=record.
+ *
+ * @param children - Output directory of every child run, with its matrix cell
+ */
+async function mergeChildReports(children: Array<{ dir: string; variant?: string }>): Promise<void> {
+  const parts = (file: string): CucumberReportPart[] => children.map((child) => ({ path: path.join(child.dir, file), variant: child.variant }));
+  mergeCucumberReports(parts('cucumber-report.json'));
+  if (mergeApiReports(parts('api_test_report.json'))) await generateHtmlReport();
+  fs.rmSync(TIMELINE_DIR, { recursive: true, force: true });
+  mergeTimelines(children.map((child) => path.join(child.dir, path.basename(TIMELINE_DIR))));
+  mergeRunMetadata(children.map((child) => child.dir));
+  mergeRecordedHars(children.map((child) => path.join(child.dir, 'hars')));
+}
+
+/**
+ * Run the features in every cell at once, then merge the cells' reports and
+ * run metadata into the project root for report.js.
+ *
+ * @returns Highest cucumber-js exit code of the cells
+ */
+export async function runMatrix(options: RunOptions, cells: MatrixCell[]): Promise<number> {
+  const codes = await Promise.all(
+    cells.map((cell) => {
+      fs.rmSync(cell.outputDir, { recursive: true, force: true });
+      fs.mkdirSync(cell.outputDir, { recursive: true });
+      const cellOptions = { ...options, browser: cell.browser, profile: cell.profile ?? options.profile, tags: browserTags(options.tags, cell.browser) };
+      const env = { ...runEnv(cellOptions), E2E_OUTPUT_DIR: cell.outputDir };
+      return run('npx', ['cucumber-js', ...cucumberArgs(cellOptions)], { env }, `[${cell.name}]`);
+    })
+  );
+  await mergeChildReports(cells.map((cell) => ({ dir: cell.outputDir, variant: cell.name })));
+  setRunMetadata('Matrix', cells.map((cell) => cell.name).join(', '));
+  return Math.max(...codes);
+}
+
+/**
+ * Shards of the requested features (every feature when none are given).
+ *
+ * @param total - Number of shards
+ * @throws Error when a feature argument matches nothing
+ */
+export function shardPlan(options: RunOptions, total: number, strategy: ShardStrategy = 'feature'): Shard[] {
+  const wanted = options.features?.length ? resolveFeatures(options.features).map((p) => p.replace(/(:\d+)+$/, '')) : undefined;
+  const features = listFeatures().filter((f) => !wanted || wanted.some((p) => f.path === p || f.path.startsWith(`${p.replace(/\/$/, '')}/`)));
+  return planShards(features, total, strategy, historicalDurations());
+}
+
+/** Run tasks with at most `size` of them in flight, results in task order */
+async function pool<T>(tasks: (() => Promise<T>)[], size: number): Promise<T[]> {
+  const results: T[] = new Array(tasks.length);
+  let next = 0;
+  const worker = async () => {
+    while (next < tasks.length) {
+      const i = next++;
+      results[i] = await tasks[i]();
+    }
+  };
+  await Promise.all(Array.from({ length: Math.max(1, Math.min(size, tasks.length)) }, worker));
+  return results;
+}
+
+/**
+ * Run shards. A single shard runs like runCucumber(); several run side by side
+ * (at most `concurrency` at a time), each in its own output directory, and
+ * their reports and run metadata are merged into the project root.
+ * Empty shards are skipped.
+ *
+ * @param concurrency - Shards running at once (default: all)
+ * @returns Highest cucumber-js exit code of the shards
+ */
+export async function runShards(options: RunOptions, shards: Shard[], concurrency = shards.length): Promise<number> {
+  const label = (shard: Shard) => `${shard.index}/${shard.total}`;
+  const busy = shards.filter((s) => s.units.length);
+  for (const shard of shards.filter((s) => !s.units.length)) console.log(`Shard ${label(shard)} has nothing to run`);
+  if (!busy.length) return EXIT_CODES.passed;
+
+  if (shards.length === 1) {
+    const code = await runCucumber({ ...options, features: busy[0].units });
+    setRunMetadata('Shard', label(busy[0]));
+    return code;
+  }
+
+  const outputDir = (shard: Shard) => path.join(SHARDS_DIR, String(shard.index));
+  const codes = await pool(
+    busy.map((shard) => () => {
+      fs.rmSync(outputDir(shard), { recursive: true, force: true });
+      fs.mkdirSync(outputDir(shard), { recursive: true });
+      const shardOptions = { ...options, features: shard.units };
+      const env = { ...runEnv(shardOptions), E2E_OUTPUT_DIR: outputDir(shard) };
+      return run('npx', ['cucumber-js', ...cucumberArgs(shardOptions)], { env }, `[${label(shard)}]`);
+    }),
+    concurrency
+  );
+  await mergeChildReports(busy.map((shard) => ({ dir: outputDir(shard) })));
+  setRunMetadata('Shards', busy.map(label).join(', '));
+  return Math.max(...codes);
+}
+
+/**
+ * Run the WDIO Android specs (`android/**\/*.test.ts`, or the given spec names).
+ *
+ * @returns WDIO exit code
+ */
+export function runWdio(specs: string[] = [], options: RunOptions = {}): Promise<number> {
+  // The reports only read Android results written after the run's start
+  setRunMetadata('Started', new Date().toISOString());
+  const specArgs = specs.flatMap((spec) => ['--spec', fs.existsSync(spec) ? spec : path.join('android', `${spec}.test.ts`)]);
+  return run('npx', ['wdio', 'run', 'wdio.conf.js', ...specArgs], { env: runEnv(options) });
+}
+
+/**
+ * Regenerate every report (report.js), then export the given formats.
+ *
+ * @returns report.js exit code, or EXIT_CODES.error when an export failed
+ */
+export async function generateReports(formats: ExportFormat[] = []): Promise<number> {
+  const code = await run(process.execPath, ['report.js']);
+  for (const format of formats) {
+    try {
+      console.log(`Wrote ${await exportReport(format)}`);
+    } catch (e: any) {
+      console.error(`Could not export ${format}: ${e?.message ?? e}`);
+      return EXIT_CODES.error;
+    }
+  }
+  return code;
+}
+
+/**
+ * Exit code of a Cucumber run: failed scenarios make it EXIT_CODES.failed,
+ * unless they are quarantined (config/quarantine.json), and so does an
+ * expired quarantine entry. A non-zero exit without a fresh report or without
+ * failed scenarios means cucumber-js itself failed (bad tag expression,
+ * syntax error, ...).
+ *
+ * @param exitCode - cucumber-js exit code
+ * @param startedAt - When the run started, to ignore a report left by an earlier run
+ */
+export function runOutcome(exitCode: number, startedAt: number, jsonPath = 'cucumber-report.json'): number {
+  const quarantine = readQuarantine();
+  const expired = expiredEntries(quarantine);
+  for (const entry of expired) console.error(`Error: ${expiryMessage(entry)}`);
+
+  const fresh = fs.existsSync(jsonPath) && fs.statSync(jsonPath).mtimeMs >= startedAt;
+  const failed = fresh ? readCucumberResults(jsonPath).filter((s) => s.status === 'failed') : [];
+  const quarantined = failed.filter((s) => quarantineOf(quarantine, s));
+  if (quarantined.length) console.log(`Ignoring ${quarantined.length} quarantined failure(s): ${quarantined.map((s) => `${s.name} (${quarantineOf(quarantine, s)!.issue})`).join(', ')}`);
+
+  if (failed.length > quarantined.length || expired.length) return EXIT_CODES.failed;
+  if (quarantined.length) return EXIT_CODES.passed;
+  return exitCode === 0 ? EXIT_CODES.passed : EXIT_CODES.error;
+}
@@ -0,0 +1,321 @@
+/**
+ * Selector notation parser
+ *
+ * Turns the prefixed selector strings used across the helpers into Playwright
+ * locators. A selector is one or more segments joined by `>>`; each segment is
+ * resolved inside the previous one, so `css:form >> role:button[name=Login]`
+ * finds the Login button inside the form.
+ *
+ * @example
+ * - `'id:myId'` → `#myId`
+ * - `'name:myName'` → `[name="myName"]`
+ * - `'input:myName'` → `input[name="myName"], input#myName`
+ * - `'css:a:hover'` → `a:hover` (everything after the first colon is kept)
+ * - `'text:Login'` → getByText('Login'); `'text:"Login"'` matches exactly
+ * - `'role:button[name=Login]'` → getByRole('button', { name: 'Login' })
+ * - `'label:Email'` → getByLabel('Email')
+ * - `'placeholder:Search'` → getByPlaceholder('Search')
+ * - `'testid:submit'` → `[data-testid="submit"]` (see TEST_ID_ATTRIBUTE)
+ * - `'xpath://div[@id="x"]'` → `xpath=//div[@id="x"]`
+ * - `'css:.item >> nth=2'` → third `.item`
+ * - `'button'` → `button` (plain CSS, no prefix)
+ *
+ * @remarks
+ * Environment variables:
+ * - TEST_ID_ATTRIBUTE: Attribute used by `testid:` (default: 'data-testid')
+ */
+import { type Page, type Locator, type FrameLocator } from 'playwright';
+
+export type SelectorPrefix =
+  | 'id'
+  | 'name'
+  | 'input'
+  | 'css'
+  | 'text'
+  | 'role'
+  | 'label'
+  | 'placeholder'
+  | 'testid'
+  | 'xpath';
+
+const PREFIXES: SelectorPrefix[] = ['id', 'name', 'input', 'css', 'text', 'role', 'label', 'placeholder', 'testid', 'xpath'];
+
+/** Options accepted inside the brackets of a `role:` segment */
+export interface RoleOptions {
+  name?: string;
+  exact?: boolean;
+  checked?: boolean;
+  disabled?: boolean;
+  expanded?: boolean;
+  includeHidden?: boolean;
+  level?: number;
+  pressed?: boolean;
+  selected?: boolean;
+}
+
+/** One parsed `>>` segment of a selector */
+export type SelectorPart =
+  | { kind: 'css'; value: string }
+  | { kind: 'xpath'; value: string }
+  | { kind: 'text' | 'label' | 'placeholder'; value: string; exact: boolean }
+  | { kind: 'role'; role: string; options: RoleOptions }
+  | { kind: 'nth'; index: number };
+
+type Root = Page | Locator | FrameLocator;
+
+let testIdAttribute = process.env.TEST_ID_ATTRIBUTE ?? 'data-testid';
+
+/**
+ * Change the attribute matched by `testid:` selectors.
+ *
+ * @example
+ * ```ts
+ * setTestIdAttribute('data-test'); // saucedemo.com
+ * ```
+ */
+export function setTestIdAttribute(attribute: string): void {
+  testIdAttribute = attribute;
+}
+
+export function getTestIdAttribute(): string {
+  return testIdAttribute;
+}
+
+function cssString(value: string): string {
+  return `"${value.replace(/\\/g, '\\\\').replace(/"/g, '\\"')}"`;
+}
+
+function idSelector(value: string): string {
+  return /^[A-Za-z_][\w-]*$/.test(value) ? `#${value}` : `[id=${cssString(value)}]`;
+}
+
+function unquote(value: string): { value: string; quoted: boolean } {
+  const m = value.match(/^(["'])([\s\S]*)\1$/);
+  return m ? { value: m[2], quoted: true } : { value, quoted: false };
+}
+
+/**
+ * Split a selector on top-level `>>`, ignoring separators inside quotes or brackets.
+ */
+function splitChain(selector: string): string[] {
+  const segments: string[] = [];
+  let current = '';
+  let quote: string | null = null;
+  let depth = 0;
+
+  for (let i = 0; i < selector.length; i++) {
+    const ch = selector[i];
+    if (quote) {
+      if (ch === '\\' && i + 1 < selector.length) {
+        current += ch + selector[++i];
+        continue;
+      }
+      if (ch === quote) quote = null;
+      current += ch;
+      continue;
+    }
+    if (ch === '"' || ch === "'") quote = ch;
+    else if (ch === '[' || ch === '(') depth++;
+    else if ((ch === ']' || ch === ')') && depth > 0) depth--;
+    else if (ch === '>' && selector[i + 1] === '>' && depth === 0) {
+      segments.push(current.trim());
+      current = '';
+      i++;
+      continue;
+    }
+    current += ch;
+  }
+  if (quote) throw new Error(`Unterminated quote in selector: ${selector}`);
+  segments.push(current.trim());
+
+  if (segments.some((s) => s === '')) throw new Error(`Empty segment in selector: ${selector}`);
+  return segments;
+}
+
+function parseBoolean(key: string, raw: string | undefined): boolean {
+  if (raw === undefined || raw === 'true') return true;
+  if (raw === 'false') return false;
+  throw new Error(`Role option "${key}" expects true or false, got "${raw}"`);
+}
+
+function parseRole(value: string): SelectorPart {
+  const m = value.match(/^([a-z]+)\s*((?:\[[^\]]*\]\s*)*)$/i);
+  if (!m) throw new Error(`Invalid role selector: ${value}`);
+
+  const options: RoleOptions = {};
+  const attrRe = /\[\s*([a-zA-Z]+)\s*(?:=\s*("(?:[^"\\]|\\.)*"|'(?:[^'\\]|\\.)*'|[^\]]*?))?\s*\]/g;
+  let attr: RegExpExecArray | null;
+  while ((attr = attrRe.exec(m[2])) !== null) {
+    const key = attr[1];
+    const raw = attr[2] === undefined ? undefined : unquote(attr[2].trim()).value;
+    switch (key) {
+      case 'name':
+        options.name = raw ?? '';
+        break;
+      case 'level':
+        if (raw === undefined || !/^\d+$/.test(raw)) throw new Error(`Role option "level" expects a number, got "${raw}"`);
+        options.level = Number(raw);
+        break;
+      case 'exact':
+      case 'checked':
+      case 'disabled':
+      case 'expanded':
+      case 'includeHidden':
+      case 'pressed':
+      case 'selected':
+        options[key] = parseBoolean(key, raw);
+        break;
+      default:
+        throw new Error(`Unknown role option "${key}" in selector: ${value}`);
+    }
+  }
+  return { kind: 'role', role: m[1], options };
+}
+
+function parseSegment(segment: string): SelectorPart {
+  const nth = segment.match(/^nth\s*=\s*(.*)$/);
+  if (nth) {
+    if (!/^-?\d+$/.test(nth[1].trim())) throw new Error(`Invalid nth index: ${segment}`);
+    return { kind: 'nth', index: Number(nth[1]) };
+  }
+
+  const colon = segment.indexOf(':');
+  const prefix = colon > 0 ? segment.slice(0, colon) : '';
+  if (!PREFIXES.includes(prefix as SelectorPrefix)) {
+    // No known prefix: the whole segment is CSS (so `a:hover` stays intact)
+    return { kind: 'css', value: segment };
+  }
+
+  const rawValue = segment.slice(colon + 1);
+  if (rawValue === '') throw new Error(`Missing value after "${prefix}:"`);
+
+  switch (prefix as SelectorPrefix) {
+    case 'id':
+      return { kind: 'css', value: idSelector(rawValue) };
+    case 'name':
+      return { kind: 'css', value: `[name=${cssString(rawValue)}]` };
+    case 'input':
+      // Prefer input[name="..."], fall back to the element id
+      return { kind: 'css', value: `input[name=${cssString(rawValue)}], input${idSelector(rawValue)}` };
+    case 'css':
+      return { kind: 'css', value: rawValue };
+    case 'testid':
+      return { kind: 'css', value: `[${testIdAttribute}=${cssString(rawValue)}]` };
+    case 'xpath':
+      return { kind: 'xpath', value: rawValue };
+    case 'role':
+      return parseRole(rawValue);
+    case 'text':
+    case 'label':
+    case 'placeholder': {
+      const { value, quoted } = unquote(rawValue);
+      return { kind: prefix as 'text' | 'label' | 'placeholder', value, exact: quoted };
+    }
+  }
+}
+
+/**
+ * Parse a selector string into its `>>` segments.
+ *
+ * @param selector - Selector in prefix notation
+ * @returns The parsed segments, outermost first
+ * @throws Error when the selector is malformed (empty segment, bad or leading nth, unknown role option)
+ *
+ * @example
+ * ```ts
+ * parseSelector('css:form >> text:Submit');
+ * // [{ kind: 'css', value: 'form' }, { kind: 'text', value: 'Submit', exact: false }]
+ * ```
+ */
+export function parseSelector(selector: string): SelectorPart[] {
+  const parts = splitChain(selector).map(parseSegment);
+  if (parts[0].kind === 'nth') throw new Error(`nth= cannot be the first segment of selector: ${selector}`);
+  return parts;
+}
+
+function describePart(part: SelectorPart): string {
+  switch (part.kind) {
+    case 'css':
+      return part.value;
+    case 'xpath':
+      return `xpath=${part.value}`;
+    case 'nth':
+      return `nth=${part.index}`;
+    case 'text':
+    case 'label':
+    case 'placeholder':
+      return `${part.kind}=${part.exact ? JSON.stringify(part.value) : part.value}`;
+    case 'role': {
+      const attrs = Object.entries(part.options)
+        .map(([k, v]) => (typeof v === 'string' ? `[${k}=${JSON.stringify(v)}]` : `[${k}=${v}]`))
+        .join('');
+      return `role=${part.role}${attrs}`;
+    }
+  }
+}
+
+/**
+ * Render a selector in normalized form (CSS where possible, Playwright engine notation otherwise).
+ *
+ * @example
+ * ```ts
+ * normalizeSelector('id:login-button');               // '#login-button'
+ * normalizeSelector('css:.list >> role:link[name=Home]'); // '.list >> role=link[name="Home"]'
+ * ```
+ */
+export function normalizeSelector(selector: string): string {
+  return parseSelector(selector).map(describePart).join(' >> ');
+}
+
+/**
+ * Like normalizeSelector(), but describes an invalid selector instead of throwing.
+ * Used when building error messages.
+ */
+export function tryNormalizeSelector(selector: string): string {
+  try {
+    return normalizeSelector(selector);
+  } catch (e: any) {
+    return `<invalid selector: ${e?.message ?? e}>`;
+  }
+}
+
+function applyPart(root: Root, part: SelectorPart): Locator {
+  switch (part.kind) {
+    case 'css':
+      return root.locator(part.value);
+    case 'xpath':
+      return root.locator(`xpath=${part.value}`);
+    case 'text':
+      return root.getByText(part.value, { exact: part.exact });
+    case 'label':
+      return root.getByLabel(part.value, { exact: part.exact });
+    case 'placeholder':
+      return root.getByPlaceholder(part.value, { exact: part.exact });
+    case 'role':
+      return root.getByRole(part.role as Parameters<Page['getByRole']>[0], part.options);
+    case 'nth':
+      return (root as Locator).nth(part.index);
+  }
+}
+
+/**
+ * Resolve a selector to a Playwright locator relative to a page, frame or locator.
+ *
+ * @param root - Page, Locator or FrameLocator to search within
+ * @param selector - Selector in prefix notation
+ * @returns The (unfiltered) locator; it may match several elements
+ *
+ * @example
+ * ```ts
+ * const button = toLocator(page, 'css:form >> role:button[name=Login]');
+ * await button.click();
+ * ```
+ */
+export function toLocator(root: Root, selector: string): Locator {
+  const [first, ...rest] = parseSelector(selector);
+  let locator = applyPart(root, first);
+  for (const part of rest) {
+    locator = applyPart(locator, part);
+  }
+  return locator;
+}
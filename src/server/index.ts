@@ -0,0 +1,161 @@
+/**
+ * Control server
+ *
+ * Local HTTP service to trigger runs and browse their results from a browser.
+ * `/` serves a control page; the JSON API behind it is:
+ *
+ * - `GET /api/features`: features under `features/` with their tags and scenarios
+ * - `GET /api/runs`, `GET /api/runs/:id`: stored runs (see store.ts)
+ * - `POST /api/runs`: start a run, body `{ features?, tags?, browser?, headless? }`
+ * - `GET /api/runs/:id/events`: Server-Sent Events with the run's progress,
+ *   past events first; an `end` event follows the final status
+ * - `POST /api/runs/:id/cancel`: stop the run in progress
+ * - `GET /files/<path>`: reports, screenshots, recordings, traces and history
+ *
+ * @example
+ * ```bash
+ * npm run server
+ * curl -X POST localhost:3000/api/runs -H 'Content-Type: application/json' \
+ *   -d '{"features":["features/saucedemo"],"tags":"@smoke","browser":"firefox"}'
+ * curl -N localhost:3000/api/runs/<id>/events
+ * ```
+ *
+ * @remarks
+ * Environment variables:
+ * - SERVER_PORT: Port to listen on (default: 3000)
+ * - SERVER_HOST: Interface to listen on (default: '127.0.0.1'; the server has no authentication)
+ */
+import http from 'http';
+import fs from 'fs';
+import path from 'path';
+import { listFeatures } from '@/features';
+import { DASHBOARD_FILE, SUMMARY_FILE } from '@/report';
+import { getRun, listRuns, readEvents, recoverRuns, type RunRequest } from './store';
+import { activeRunId, cancelRun, onRunEvent, startRun, validateRunRequest } from './runner';
+import { CONTROL_PAGE } from './ui';
+
+export { RUNS_DIR, type RunRecord, type RunEvent, type RunRequest, type RunStatus } from './store';
+
+/** Directories and files under the project root that /files/ serves */
+const SERVED_DIRS = ['screenshots', 'recordings', 'traces', 'reports', 'visual-results'];
+const SERVED_FILES = [DASHBOARD_FILE, SUMMARY_FILE, 'cucumber-report.html', 'cucumber-report.json', 'api_test_report.html', 'api_test_report.json'];
+
+const CONTENT_TYPES: Record<string, string> = {
+  '.html': 'text/html; charset=utf-8',
+  '.json': 'application/json',
+  '.jsonl': 'application/x-ndjson',
+  '.png': 'image/png',
+  '.jpg': 'image/jpeg',
+  '.webm': 'video/webm',
+  '.mp4': 'video/mp4',
+  '.zip': 'application/zip',
+  '.xml': 'application/xml',
+  '.txt': 'text/plain; charset=utf-8',
+};
+
+function sendJson(res: http.ServerResponse, status: number, body: unknown): void {
+  res.writeHead(status, { 'Content-Type': 'application/json' });
+  res.end(JSON.stringify(body));
+}
+
+function readBody(req: http.IncomingMessage): Promise<any> {
+  return new Promise((resolve, reject) => {
+    let raw = '';
+    req.on('data', (chunk) => {
+      raw += chunk;
+      if (raw.length > 1_000_000) reject(new Error('Request body too large'));
+    });
+    req.on('end', () => {
+      try {
+        resolve(raw ? JSON.parse(raw) : {});
+      } catch {
+        reject(new Error('Request body is not valid JSON'));
+      }
+    });
+  });
+}
+
+function serveFile(res: http.ServerResponse, relative: string): void {
+  const file = path.resolve(relative);
+  const rel = path.relative(process.cwd(), file).split(path.sep).join('/');
+  const allowed = SERVED_FILES.includes(rel) || SERVED_DIRS.some((dir) => rel.startsWith(`${dir}/`));
+  if (!allowed || !fs.existsSync(file) || !fs.statSync(file).isFile()) return sendJson(res, 404, { error: `Not found: ${relative}` });
+  res.writeHead(200, { 'Content-Type': CONTENT_TYPES[path.extname(file).toLowerCase()] ?? 'application/octet-stream' });
+  fs.createReadStream(file).pipe(res);
+}
+
+function streamEvents(req: http.IncomingMessage, res: http.ServerResponse, id: string): void {
+  res.writeHead(200, { 'Content-Type': 'text/event-stream', 'Cache-Control': 'no-cache', Connection: 'keep-alive' });
+  const send = (event: unknown) => res.write(`data: ${JSON.stringify(event)}\n\n`);
+  const end = () => {
+    res.write('event: end\ndata: {}\n\n');
+    res.end();
+  };
+
+  // Replay and subscribe in the same tick, so no event is missed or sent twice
+  readEvents(id).forEach(send);
+  if (activeRunId() !== id) return end();
+  const stop = onRunEvent(id, (event) => {
+    send(event);
+    if (event.type === 'status') {
+      stop();
+      end();
+    }
+  });
+  req.on('close', stop);
+}
+
+async function handle(req: http.IncomingMessage, res: http.ServerResponse): Promise<void> {
+  const url = new URL(req.url ?? '/', 'http://localhost');
+  const parts = url.pathname.split('/').filter(Boolean).map(decodeURIComponent);
+
+  if (req.method === 'GET' && url.pathname === '/') {
+    res.writeHead(200, { 'Content-Type': 'text/html; charset=utf-8' });
+    return void res.end(CONTROL_PAGE);
+  }
+  if (req.method === 'GET' && parts[0] === 'files') return serveFile(res, parts.slice(1).join('/'));
+  if (parts[0] !== 'api') return sendJson(res, 404, { error: 'Not found' });
+
+  const [, resource, id, action] = parts;
+  if (req.method === 'GET' && resource === 'features' && !id) return sendJson(res, 200, listFeatures());
+  if (resource !== 'runs') return sendJson(res, 404, { error: 'Not found' });
+
+  if (!id) {
+    if (req.method === 'GET') return sendJson(res, 200, listRuns());
+    if (req.method !== 'POST') return sendJson(res, 405, { error: 'Method not allowed' });
+    const request: RunRequest = await readBody(req);
+    const invalid = validateRunRequest(request);
+    if (invalid) return sendJson(res, 400, { error: invalid });
+    if (activeRunId()) return sendJson(res, 409, { error: `Run ${activeRunId()} is still in progress` });
+    return sendJson(res, 202, startRun(request));
+  }
+
+  const run = getRun(id);
+  if (!run) return sendJson(res, 404, { error: `No run ${id}` });
+  if (req.method === 'GET' && !action) return sendJson(res, 200, run);
+  if (req.method === 'GET' && action === 'events') return streamEvents(req, res, id);
+  if (req.method === 'POST' && action === 'cancel') {
+    return cancelRun(id) ? sendJson(res, 202, { id, status: 'cancelling' }) : sendJson(res, 409, { error: `Run ${id} is not in progress` });
+  }
+  sendJson(res, 404, { error: 'Not found' });
+}
+
+/**
+ * Start the control server.
+ *
+ * @param port - Port to listen on (default: SERVER_PORT, then 3000)
+ * @param host - Interface to listen on (default: SERVER_HOST, then '127.0.0.1')
+ */
+export function startServer(port = Number(process.env.SERVER_PORT ?? 3000), host = process.env.SERVER_HOST ?? '127.0.0.1'): Promise<http.Server> {
+  recoverRuns();
+  const server = http.createServer((req, res) => {
+    handle(req, res).catch((e) => {
+      if (res.headersSent) return void res.end();
+      sendJson(res, 400, { error: e?.message ?? String(e) });
+    });
+  });
+  return new Promise((resolve, reject) => {
+    server.once('error', reject);
+    server.listen(port, host, () => resolve(server));
+  });
+}
@@ -0,0 +1,230 @@
+/**
+ * Run launcher
+ *
+ * Starts `cucumber-js` as a child process for a RunRequest, turns its message
+ * stream (`--format message`, one JSON envelope per line) into scenario and
+ * step progress events, and generates the reports (report.js) once it exits.
+ * One run at a time: every run writes the same report files.
+ */
+import { spawn, type ChildProcess } from 'child_process';
+import { EventEmitter } from 'events';
+import fs from 'fs';
+import path from 'path';
+import { FEATURES_DIR } from '@/features';
+import { BROWSERS, EXIT_CODES, cucumberArgs, runEnv, runOutcome } from '@/runner';
+import { appendEvent, newRunId, saveRun, type RunEvent, type RunRecord, type RunRequest } from './store';
+
+const events = new EventEmitter();
+events.setMaxListeners(0);
+
+let active: { run: RunRecord; child: ChildProcess; cancelled: boolean } | undefined;
+
+/** Id of the run in progress, if any */
+export function activeRunId(): string | undefined {
+  return active?.run.id;
+}
+
+/**
+ * Listen to the events of a run as they happen.
+ *
+ * @returns Function that stops listening
+ */
+export function onRunEvent(id: string, listener: (event: RunEvent) => void): () => void {
+  events.on(id, listener);
+  return () => events.off(id, listener);
+}
+
+function emit(run: RunRecord, event: RunEvent): void {
+  appendEvent(run.id, event);
+  events.emit(run.id, event);
+}
+
+/**
+ * Check a run request.
+ *
+ * @returns What is wrong with it, or undefined when it can be started
+ */
+export function validateRunRequest(request: RunRequest): string | undefined {
+  if (request.features !== undefined && !Array.isArray(request.features)) return 'features must be a list of paths under features/';
+  for (const feature of request.features ?? []) {
+    // 'features/a/a.feature:12' runs the scenario at line 12
+    const file = path.resolve(feature.replace(/(:\d+)+$/, ''));
+    if (!file.startsWith(FEATURES_DIR + path.sep) && file !== FEATURES_DIR) return `Not under features/: ${feature}`;
+    if (!fs.existsSync(file)) return `Feature not found: ${feature}`;
+  }
+  if (request.browser && !BROWSERS.includes(request.browser)) return `Unknown browser "${request.browser}", expected one of: ${BROWSERS.join(', ')}`;
+  if (request.tags !== undefined && typeof request.tags !== 'string') return 'tags must be a tag expression string';
+  return undefined;
+}
+
+function toMs(duration: { seconds: number; nanos: number } | undefined): number {
+  return duration ? Math.round(duration.seconds * 1000 + duration.nanos / 1e6) : 0;
+}
+
+const SEVERITY = ['UNKNOWN', 'PASSED', 'SKIPPED', 'PENDING', 'UNDEFINED', 'AMBIGUOUS', 'FAILED'];
+
+/**
+ * Turn Cucumber message envelopes into progress events.
+ *
+ * @returns Function taking one envelope (one line of `--format message` output)
+ */
+export function createProgressParser(emit: (event: RunEvent) => void): (envelope: any) => void {
+  const pickles = new Map<string, { name: string; uri: string; steps: Map<string, string> }>();
+  const testCases = new Map<string, { pickleId: string; steps: Map<string, string | undefined> }>();
+  const started = new Map<string, { testCaseId: string; attempt: number; worst: string }>();
+
+  const pickleOf = (testCaseStartedId: string) => {
+    const run = started.get(testCaseStartedId);
+    const testCase = run && testCases.get(run.testCaseId);
+    return { run, testCase, pickle: testCase && pickles.get(testCase.pickleId) };
+  };
+
+  return (envelope: any) => {
+    if (envelope.pickle) {
+      const { id, name, uri, steps } = envelope.pickle;
+      pickles.set(id, { name, uri, steps: new Map(steps.map((s: any) => [s.id, s.text])) });
+    } else if (envelope.testCase) {
+      const { id, pickleId, testSteps } = envelope.testCase;
+      testCases.set(id, { pickleId, steps: new Map(testSteps.map((s: any) => [s.id, s.pickleStepId])) });
+    } else if (envelope.testCaseStarted) {
+      const { id, testCaseId, attempt } = envelope.testCaseStarted;
+      started.set(id, { testCaseId, attempt, worst: 'UNKNOWN' });
+      const { pickle } = pickleOf(id);
+      if (pickle) emit({ type: 'scenario', feature: pickle.uri, scenario: pickle.name, status: 'started', attempt: attempt + 1 });
+    } else if (envelope.testStepFinished) {
+      const { testCaseStartedId, testStepId, testStepResult } = envelope.testStepFinished;
+      const { run, testCase, pickle } = pickleOf(testCaseStartedId);
+      if (!run || !testCase || !pickle) return;
+      if (SEVERITY.indexOf(testStepResult.status) > SEVERITY.indexOf(run.worst)) run.worst = testStepResult.status;
+      const pickleStepId = testCase.steps.get(testStepId);
+      // Hooks only show up when they fail
+      if (!pickleStepId && testStepResult.status !== 'FAILED') return;
+      emit({
+        type: 'step',
+        scenario: pickle.name,
+        step: pickleStepId ? pickle.steps.get(pickleStepId) ?? '' : 'Hook',
+        status: testStepResult.status.toLowerCase(),
+        durationMs: toMs(testStepResult.duration),
+        error: testStepResult.message?.split('\n')[0],
+      });
+    } else if (envelope.testCaseFinished) {
+      const { testCaseStartedId, willBeRetried } = envelope.testCaseFinished;
+      const { run, pickle } = pickleOf(testCaseStartedId);
+      if (!run || !pickle) return;
+      const status = run.worst === 'PASSED' ? 'passed' : SEVERITY.indexOf(run.worst) >= SEVERITY.indexOf('UNDEFINED') ? 'failed' : 'skipped';
+      emit({ type: 'scenario', feature: pickle.uri, scenario: pickle.name, status, attempt: run.attempt + 1, ...(willBeRetried && { retrying: true }) });
+    }
+  };
+}
+
+function forEachLine(stream: NodeJS.ReadableStream | null, fn: (line: string) => void): void {
+  let buffer = '';
+  stream?.on('data', (chunk) => {
+    buffer += chunk;
+    const lines = buffer.split('\n');
+    buffer = lines.pop() ?? '';
+    lines.filter((l) => l.trim()).forEach(fn);
+  });
+  stream?.on('end', () => buffer.trim() && fn(buffer));
+}
+
+function finish(run: RunRecord, status: RunRecord['status'], exitCode?: number | null, error?: string): void {
+  Object.assign(run, { status, exitCode, error, finishedAt: new Date().toISOString() });
+  saveRun(run);
+  emit(run, { type: 'status', status, exitCode, error });
+  active = undefined;
+}
+
+/** Generate the reports (dashboard, history, cucumber-report.html) for the run that just ended */
+function generateReport(run: RunRecord, done: () => void): void {
+  let called = false;
+  const once = () => !called && (called = true) && done();
+  const child = spawn(process.execPath, ['report.js'], { cwd: process.cwd(), stdio: ['ignore', 'pipe', 'pipe'] });
+  forEachLine(child.stdout, (text) => emit(run, { type: 'log', text }));
+  forEachLine(child.stderr, (text) => emit(run, { type: 'log', text }));
+  child.on('error', (e) => {
+    emit(run, { type: 'log', text: `Report generation failed: ${e.message}` });
+    once();
+  });
+  child.on('close', once);
+}
+
+/**
+ * Start a run. Call validateRunRequest() first.
+ *
+ * @throws Error when another run is in progress
+ */
+export function startRun(request: RunRequest): RunRecord {
+  if (active) throw new Error(`Run ${active.run.id} is still in progress`);
+
+  const run: RunRecord = {
+    id: newRunId(),
+    features: request.features?.length ? request.features : undefined,
+    tags: request.tags || undefined,
+    browser: request.browser,
+    headless: request.headless ?? true,
+    status: 'running',
+    createdAt: new Date().toISOString(),
+    counts: { passed: 0, failed: 0, skipped: 0 },
+  };
+  saveRun(run);
+
+  const startedAt = Date.now();
+  const args = ['cucumber-js', ...cucumberArgs(run), '--format', 'message'];
+  const env = runEnv(run);
+  // Own process group, so cancelling stops cucumber-js and the browsers it started
+  const child = spawn('npx', args, { cwd: process.cwd(), env, detached: true, stdio: ['ignore', 'pipe', 'pipe'] });
+  active = { run, child, cancelled: false };
+
+  const parse = createProgressParser((event) => {
+    if (event.type === 'scenario' && event.status !== 'started' && !event.retrying) {
+      run.counts[event.status]++;
+      saveRun(run);
+    }
+    emit(run, event);
+  });
+  forEachLine(child.stdout, (line) => {
+    let envelope: any;
+    try {
+      envelope = JSON.parse(line);
+    } catch {
+      return emit(run, { type: 'log', text: line }); // console output of steps and hooks
+    }
+    parse(envelope);
+  });
+  forEachLine(child.stderr, (text) => emit(run, { type: 'log', text }));
+
+  child.on('error', (e) => finish(run, 'error', null, `Could not start cucumber-js: ${e.message}`));
+  child.on('close', (code) => {
+    if (run.status !== 'running') return; // failed to start
+    if (active?.cancelled) return finish(run, 'cancelled', code);
+    generateReport(run, () => {
+      // Same outcome as the CLI: quarantined failures don't fail the run, see src/quarantine.ts
+      let outcome: number;
+      try {
+        outcome = runOutcome(code ?? EXIT_CODES.error, startedAt);
+      } catch (e: any) {
+        return finish(run, 'error', code, e?.message ?? String(e));
+      }
+      finish(run, outcome === EXIT_CODES.passed ? 'passed' : outcome === EXIT_CODES.failed ? 'failed' : 'error', outcome);
+    });
+  });
+  return run;
+}
+
+/**
+ * Stop the run in progress.
+ *
+ * @returns false when the run is not in progress
+ */
+export function cancelRun(id: string): boolean {
+  if (!active || active.run.id !== id) return false;
+  active.cancelled = true;
+  const { pid } = active.child;
+  try {
+    if (pid) process.kill(-pid, 'SIGTERM');
+  } catch {
+    active.child.kill('SIGTERM');
+  }
+  return true;
+}
@@ -0,0 +1,103 @@
+/**
+ * Run store
+ *
+ * Runs started through the control server are kept on disk under
+ * `reports/runs/<id>/`: `run.json` holds the run's state and `events.jsonl`
+ * every progress event in order, so a run can be reviewed (and its progress
+ * replayed) after the server restarts.
+ */
+import fs from 'fs';
+import path from 'path';
+
+export const RUNS_DIR = path.join(process.cwd(), 'reports', 'runs');
+
+export type RunStatus = 'running' | 'passed' | 'failed' | 'cancelled' | 'error';
+
+export interface RunRequest {
+  /** Feature files or directories under `features/` (default: every feature) */
+  features?: string[];
+  /** Cucumber tag expression, e.g. '@smoke and not @wip' */
+  tags?: string;
+  /** Browser engine: 'chromium', 'firefox' or 'webkit' */
+  browser?: string;
+  /** Run without a visible browser window (default: true) */
+  headless?: boolean;
+}
+
+export interface RunRecord extends RunRequest {
+  id: string;
+  status: RunStatus;
+  createdAt: string;
+  finishedAt?: string;
+  /** Outcome of the run, see EXIT_CODES in src/runner.ts */
+  exitCode?: number | null;
+  /** Scenario outcomes so far */
+  counts: { passed: number; failed: number; skipped: number };
+  error?: string;
+}
+
+export type RunEvent =
+  | { type: 'scenario'; feature: string; scenario: string; status: 'started' | 'passed' | 'failed' | 'skipped'; attempt: number; retrying?: boolean }
+  | { type: 'step'; scenario: string; step: string; status: string; durationMs: number; error?: string }
+  | { type: 'log'; text: string }
+  | { type: 'status'; status: RunStatus; exitCode?: number | null; error?: string };
+
+function runDir(id: string): string {
+  return path.join(RUNS_DIR, id);
+}
+
+export function newRunId(): string {
+  return new Date().toISOString().replace(/[:.]/g, '-');
+}
+
+export function saveRun(run: RunRecord): void {
+  fs.mkdirSync(runDir(run.id), { recursive: true });
+  fs.writeFileSync(path.join(runDir(run.id), 'run.json'), JSON.stringify(run, null, 2));
+}
+
+export function getRun(id: string): RunRecord | undefined {
+  if (!/^[\w-]+$/.test(id)) return undefined;
+  try {
+    return JSON.parse(fs.readFileSync(path.join(runDir(id), 'run.json'), 'utf8'));
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * Every stored run, newest first.
+ */
+export function listRuns(): RunRecord[] {
+  if (!fs.existsSync(RUNS_DIR)) return [];
+  return fs
+    .readdirSync(RUNS_DIR)
+    .sort()
+    .reverse()
+    .map(getRun)
+    .filter((run): run is RunRecord => !!run);
+}
+
+export function appendEvent(id: string, event: RunEvent): void {
+  fs.appendFileSync(path.join(runDir(id), 'events.jsonl'), JSON.stringify(event) + '\n');
+}
+
+export function readEvents(id: string): RunEvent[] {
+  try {
+    return fs
+      .readFileSync(path.join(runDir(id), 'events.jsonl'), 'utf8')
+      .split('\n')
+      .filter(Boolean)
+      .map((line) => JSON.parse(line));
+  } catch {
+    return [];
+  }
+}
+
+/**
+ * Mark runs still "running" as errors: the server that ran them is gone.
+ */
+export function recoverRuns(): void {
+  for (const run of listRuns().filter((r) => r.status === 'running')) {
+    saveRun({ ...run, status: 'error', error: 'Server stopped during the run', finishedAt: run.finishedAt ?? new Date().toISOString() });
+  }
+}
@@ -0,0 +1,96 @@
+/**
+ * Control page served at `/`: pick features, tags and a browser, start or
+ * cancel a run, follow its progress live and open its reports. Everything
+ * goes through the JSON API, so the page is static.
+ */
+export const CONTROL_PAGE = `<!doctype html>
+<html>
+<head>
+  <meta charset="utf-8"/>
+  <title>Test Runs</title>
+  <style>
+    body { font-family: system-ui, Arial, sans-serif; padding: 16px; max-width: 1200px; margin: auto; }
+    table { border-collapse: collapse; width: 100%; margin-bottom: 16px; }
+    th, td { border: 1px solid #ddd; padding: 6px 8px; text-align: left; vertical-align: top; }
+    th { background: #f5f5f5; }
+    .passed { color: #2e7d32; } .failed, .error { color: #c62828; } .skipped, .cancelled { color: #9e9e9e; } .running { color: #1565c0; }
+    .muted { color: #666; font-size: 0.9em; }
+    form > * { margin: 4px 8px 4px 0; }
+    pre { white-space: pre-wrap; max-height: 480px; overflow: auto; background: #fafafa; padding: 6px; }
+  </style>
+</head>
+<body>
+  <h1>Test Runs</h1>
+  <form id="start">
+    <table><thead><tr><th></th><th>Feature</th><th>Tags</th><th>Scenarios</th></tr></thead><tbody id="features"></tbody></table>
+    <label>Tags <input name="tags" placeholder="@smoke and not @wip"/></label>
+    <label>Browser <select name="browser"><option value="">default</option><option>chromium</option><option>firefox</option><option>webkit</option></select></label>
+    <label><input type="checkbox" name="headed"/> Show browser</label>
+    <button>Start run</button>
+    <span id="message" class="failed"></span>
+  </form>
+  <p class="muted">No feature selected runs every feature. Reports: <a href="/files/test-dashboard.html">dashboard</a> · <a href="/files/cucumber-report.html">Cucumber report</a> · <a href="/files/reports/history/trends.html">trends</a></p>
+  <h2>Runs</h2>
+  <table><thead><tr><th>Run</th><th>Status</th><th>Features</th><th>Tags</th><th>Browser</th><th>Passed</th><th>Failed</th><th>Skipped</th><th></th></tr></thead><tbody id="runs"></tbody></table>
+  <h2 id="title"></h2>
+  <pre id="log"></pre>
+  <script>
+    const $ = (id) => document.getElementById(id);
+    const esc = (s) => String(s ?? '').replace(/[&<>"]/g, (c) => ({ '&': '&amp;', '<': '&lt;', '>': '&gt;', '"': '&quot;' })[c]);
+    let source;
+
+    async function loadFeatures() {
+      const features = await (await fetch('/api/features')).json();
+      $('features').innerHTML = features.map((f) =>
+        '<tr><td><input type="checkbox" name="feature" value="' + esc(f.path) + '"/></td><td>' + esc(f.name) + '<br/><span class="muted">' + esc(f.path) + '</span></td><td>' + esc(f.tags.join(' ')) + '</td><td>' + f.scenarios.length + '</td></tr>').join('');
+    }
+
+    async function loadRuns() {
+      const runs = await (await fetch('/api/runs')).json();
+      $('runs').innerHTML = runs.map((r) =>
+        '<tr><td><a href="#" onclick="follow(\\'' + r.id + '\\');return false">' + esc(r.id) + '</a></td><td class="' + r.status + '">' + r.status + '</td><td>' + esc((r.features || ['all']).join(', ')) + '</td><td>' + esc(r.tags) + '</td><td>' + esc(r.browser || 'default') + '</td><td>' + r.counts.passed + '</td><td>' + r.counts.failed + '</td><td>' + r.counts.skipped + '</td><td>' +
+        (r.status === 'running' ? '<button onclick="cancelRun(\\'' + r.id + '\\')">Cancel</button>' : '') + '</td></tr>').join('');
+    }
+
+    function describe(e) {
+      if (e.type === 'scenario') return (e.status === 'started' ? '▶ ' : '■ ') + e.scenario + (e.attempt > 1 ? ' (attempt ' + e.attempt + ')' : '') + (e.status === 'started' ? '' : ': ' + e.status + (e.retrying ? ', retrying' : ''));
+      if (e.type === 'step') return '   ' + e.status.padEnd(9) + e.step + ' (' + e.durationMs + 'ms)' + (e.error ? '\\n            ' + e.error : '');
+      if (e.type === 'status') return '== ' + e.status + (e.error ? ': ' + e.error : '');
+      return e.text;
+    }
+
+    function follow(id) {
+      if (source) source.close();
+      $('title').textContent = 'Run ' + id;
+      $('log').textContent = '';
+      source = new EventSource('/api/runs/' + id + '/events');
+      source.onmessage = (m) => {
+        const e = JSON.parse(m.data);
+        $('log').textContent += describe(e) + '\\n';
+        $('log').scrollTop = $('log').scrollHeight;
+        if (e.type !== 'log' && e.type !== 'step') loadRuns();
+      };
+      source.addEventListener('end', () => source.close());
+    }
+
+    async function cancelRun(id) {
+      await fetch('/api/runs/' + id + '/cancel', { method: 'POST' });
+      loadRuns();
+    }
+
+    $('start').onsubmit = async (ev) => {
+      ev.preventDefault();
+      const form = new FormData(ev.target);
+      const body = { features: form.getAll('feature'), tags: form.get('tags') || undefined, browser: form.get('browser') || undefined, headless: !form.get('headed') };
+      const res = await fetch('/api/runs', { method: 'POST', headers: { 'Content-Type': 'application/json' }, body: JSON.stringify(body) });
+      const data = await res.json();
+      $('message').textContent = res.ok ? '' : data.error;
+      if (res.ok) follow(data.id);
+      loadRuns();
+    };
+
+    loadFeatures();
+    loadRuns();
+  </script>
+</body>
+</html>`;
@@ -0,0 +1,110 @@
+/**
+ * Sharding
+ *
+ * Splits the features (or their scenarios) into shards of about equal run
+ * time. Each unit is weighted by its average duration in the run history
+ * (reports/history, see src/report/history.ts); units without history count
+ * as the median known duration, so without any history the split is by count.
+ * Units are dealt largest first to the lightest shard, which keeps the split
+ * stable between machines that see the same files and history.
+ *
+ * @example
+ * ```ts
+ * const plan = planShards(listFeatures(), 4, 'scenario', historicalDurations());
+ * plan[1].units; // ['features/saucedemo/saucedemo.feature:3', ...] for shard 2/4
+ * ```
+ */
+import { type FeatureInfo } from '@/features';
+import { analyzeHistory, readHistory, type ScenarioTrend } from '@/report';
+
+/** What a shard is made of: whole feature files or single scenarios (`path:line`) */
+export type ShardStrategy = 'feature' | 'scenario';
+
+export interface Shard {
+  /** 1-based */
+  index: number;
+  /** Number of shards in the plan */
+  total: number;
+  /** Feature paths, or `path:line` per scenario */
+  units: string[];
+  /** Expected run time in milliseconds (scenario count when there's no history) */
+  weight: number;
+}
+
+/**
+ * Parse a shard argument like '2/4'.
+ *
+ * @throws Error unless it is `<index>/<total>` with 1 <= index <= total
+ */
+export function parseShard(value: string): { index: number; total: number } {
+  const match = value.match(/^(\d+)\/(\d+)$/);
+  const index = Number(match?.[1]);
+  const total = Number(match?.[2]);
+  if (!match || index < 1 || total < 1 || index > total) throw new Error(`Invalid shard "${value}", expected <index>/<total> like 2/4`);
+  return { index, total };
+}
+
+function scenarioKey(feature: string, scenario: string): string {
+  return `${feature}\u0000${scenario}`;
+}
+
+/**
+ * Average duration per scenario from the run history, keyed by feature and
+ * scenario name. The browser matrix cells of a scenario are averaged; the
+ * example rows of a Scenario Outline, which share its name, are added up as
+ * they all run in the outline's unit.
+ *
+ * @param trends - Scenario statistics (default: those of the recorded run history)
+ */
+export function historicalDurations(trends: ScenarioTrend[] = analyzeHistory(readHistory())): Map<string, number> {
+  // feature and name → scenario (or example row) id without the cell → durations of its cells
+  const rows = new Map<string, Map<string, number[]>>();
+  for (const trend of trends) {
+    if (!trend.runs) continue;
+    const key = scenarioKey(trend.feature, trend.name);
+    const row = trend.variant ? trend.id.slice(0, -(trend.variant.length + 1)) : trend.id;
+    const cells = rows.get(key) ?? new Map<string, number[]>();
+    cells.set(row, [...(cells.get(row) ?? []), trend.avgDurationMs]);
+    rows.set(key, cells);
+  }
+
+  const durations = new Map<string, number>();
+  for (const [key, cells] of rows) {
+    const averages = [...cells.values()].map((values) => values.reduce((a, b) => a + b, 0) / values.length);
+    durations.set(key, Math.round(averages.reduce((a, b) => a + b, 0)));
+  }
+  return durations;
+}
+
+function median(values: number[]): number {
+  if (!values.length) return 1;
+  const sorted = [...values].sort((a, b) => a - b);
+  return sorted[Math.floor(sorted.length / 2)] || 1;
+}
+
+/**
+ * Split features into shards.
+ *
+ * @param durations - Average scenario durations, see historicalDurations() (default: none, split by count)
+ * @returns `total` shards, some possibly empty when there are fewer units than shards
+ */
+export function planShards(features: FeatureInfo[], total: number, strategy: ShardStrategy = 'feature', durations = new Map<string, number>()): Shard[] {
+  const known = features.flatMap((f) => f.scenarios.map((s) => durations.get(scenarioKey(f.name, s.name)))).filter((d): d is number => d !== undefined);
+  const fallback = median(known);
+  const weightOf = (feature: FeatureInfo, scenario: FeatureInfo['scenarios'][number]) => durations.get(scenarioKey(feature.name, scenario.name)) ?? fallback;
+
+  const units =
+    strategy === 'feature'
+      ? features.map((f) => ({ unit: f.path, weight: f.scenarios.reduce((sum, s) => sum + weightOf(f, s), 0) }))
+      : features.flatMap((f) => f.scenarios.map((s) => ({ unit: `${f.path}:${s.line}`, weight: weightOf(f, s) })));
+
+  const shards: Shard[] = Array.from({ length: total }, (_, i) => ({ index: i + 1, total, units: [], weight: 0 }));
+  units
+    .sort((a, b) => b.weight - a.weight || a.unit.localeCompare(b.unit))
+    .forEach(({ unit, weight }) => {
+      const lightest = shards.reduce((min, s) => (s.weight < min.weight ? s : min));
+      lightest.units.push(unit);
+      lightest.weight += weight;
+    });
+  return shards;
+}
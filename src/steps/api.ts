@@ -0,0 +1,170 @@
+/**
+ * API steps
+ *
+ * Gherkin wrappers around src/api.ts. Requests go through the scenario's API
+ * context (see PlaywrightWorld.ensureApi); paths, bodies, tokens and expected
+ * values may use `{{name}}` for values saved from earlier responses. Every
+ * step writes a pass/fail entry through appendReport, so API checks show up in
+ * `api_test_report.json` and the dashboard; request steps also attach the
+ * method, URL, status and response time to the Cucumber step.
+ *
+ * @example
+ * ```gherkin
+ * Given I authenticate to the API as "standard"
+ * When I send POST "/users" with body:
+ *   """
+ *   { "name": "Ada" }
+ *   """
+ * Then the response status should be 201
+ * When I save the response field "id" as "userId"
+ * And I send GET "/users/{{userId}}"
+ * Then the response status should be 200
+ * And the response should match schema "user.json"
+ * And the response field "name" should equal "Ada"
+ * And the response time should be below 500 ms
+ * ```
+ */
+import { Given, When, Then } from '@cucumber/cucumber';
+import { AssertionFailure } from '@/errors';
+import { appendReport } from '@/playwright';
+import { getCredentials } from '@/environment';
+import { sendRequest, expectStatus, expectResponseTime, validateSchema, extractValue, interpolate, type ApiResponse } from '@/api';
+import { type PlaywrightWorld } from '@/world';
+
+/**
+ * Run a step and append its outcome to the API report. Failures are rethrown.
+ *
+ * @param timed - Whether the step sent the request; only then is the response time
+ *   reported as the step's duration, so the dashboard doesn't count it once per assertion
+ */
+async function reported(world: PlaywrightWorld, fn: () => Promise<string> | string, timed = false): Promise<void> {
+  const entry = { scenario: world.scenarioName, feature: world.featureUri, step: world.stepText };
+  try {
+    const message = await fn();
+    await appendReport({ ...entry, ...responseFields(world.response, timed), status: 'pass', message });
+  } catch (e: any) {
+    await appendReport({ ...entry, ...responseFields(world.response, timed), status: 'fail', message: e?.message ?? String(e) });
+    throw e;
+  }
+}
+
+function responseFields(response: ApiResponse | undefined, timed: boolean): Record<string, unknown> {
+  if (!response) return {};
+  return { method: response.method, url: response.url, httpStatus: response.status, ...(timed && { durationMs: response.durationMs }) };
+}
+
+function lastResponse(world: PlaywrightWorld): ApiResponse {
+  if (!world.response) throw new Error('No API response yet. Send a request first (e.g. \'When I send GET "/users/1"\').');
+  return world.response;
+}
+
+async function send(world: PlaywrightWorld, method: string, url: string, body?: string): Promise<string> {
+  const api = await world.ensureApi();
+  let options = {};
+  if (body !== undefined) {
+    const text = interpolate(body, world.vars);
+    try {
+      options = { json: JSON.parse(text) };
+    } catch {
+      options = { data: text };
+    }
+  }
+  world.response = undefined;
+  world.response = await sendRequest(api, method, interpolate(url, world.vars), options);
+  const { method: sent, url: target, status, durationMs } = world.response;
+  world.attach(`${sent} ${target} → ${status} in ${durationMs}ms`, 'text/plain');
+  return `${status} in ${durationMs}ms`;
+}
+
+// ============================================================================
+// SETUP
+// ============================================================================
+
+Given('the API base URL is {string}', async function (this: PlaywrightWorld, baseUrl: string) {
+  await this.configureApi({ baseUrl });
+});
+
+Given('I use the bearer token {string}', async function (this: PlaywrightWorld, token: string) {
+  await this.configureApi({ auth: { bearer: interpolate(token, this.vars) } });
+});
+
+Given('I authenticate to the API as {string}', async function (this: PlaywrightWorld, name: string) {
+  const { username, password } = getCredentials(name);
+  await this.configureApi({ auth: { username, password } });
+});
+
+Given('the request header {string} is {string}', async function (this: PlaywrightWorld, header: string, value: string) {
+  await this.configureApi({ headers: { [header]: interpolate(value, this.vars) } });
+});
+
+// ============================================================================
+// REQUESTS
+// ============================================================================
+
+When('I send {word} {string}', async function (this: PlaywrightWorld, method: string, url: string) {
+  await reported(this, () => send(this, method, url), true);
+});
+
+When('I send {word} {string} with body:', async function (this: PlaywrightWorld, method: string, url: string, body: string) {
+  await reported(this, () => send(this, method, url, body), true);
+});
+
+When('I save the response field {string} as {string}', async function (this: PlaywrightWorld, field: string, name: string) {
+  await reported(this, () => {
+    const value = extractValue(lastResponse(this).body, field);
+    if (value === undefined) throw new Error(`Response has no field "${field}"`);
+    this.vars[name] = typeof value === 'string' ? value : JSON.stringify(value);
+    return `${name} = ${this.vars[name]}`;
+  });
+});
+
+// ============================================================================
+// ASSERTIONS
+// ============================================================================
+
+Then('the response status should be {int}', async function (this: PlaywrightWorld, status: number) {
+  await reported(this, () => {
+    expectStatus(lastResponse(this), status);
+    return `status ${status}`;
+  });
+});
+
+Then('the response time should be below {int} ms', async function (this: PlaywrightWorld, maxMs: number) {
+  await reported(this, () => {
+    const response = lastResponse(this);
+    expectResponseTime(response, maxMs);
+    return `${response.durationMs}ms`;
+  });
+});
+
+Then('the response should match schema {string}', async function (this: PlaywrightWorld, schema: string) {
+  await reported(this, () => {
+    validateSchema(lastResponse(this).body, schema);
+    return `matches ${schema}`;
+  });
+});
+
+Then('the response should match schema:', async function (this: PlaywrightWorld, schema: string) {
+  await reported(this, () => {
+    validateSchema(lastResponse(this).body, JSON.parse(schema));
+    return 'matches inline schema';
+  });
+});
+
+Then('the response field {string} should equal {string}', async function (this: PlaywrightWorld, field: string, expected: string) {
+  await reported(this, () => {
+    const response = lastResponse(this);
+    const value = extractValue(response.body, field);
+    const actual = typeof value === 'string' ? value : JSON.stringify(value);
+    const wanted = interpolate(expected, this.vars);
+    if (actual !== wanted) {
+      throw new AssertionFailure(
+        `Response field "${field}" is ${actual}, expected ${wanted}`,
+        { action: 'expectField', url: response.url, elapsedMs: 0 },
+        wanted,
+        actual
+      );
+    }
+    return `${field} = ${actual}`;
+  });
+});
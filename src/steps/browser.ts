@@ -0,0 +1,238 @@
+/**
+ * Built-in Gherkin step library
+ *
+ * Exposes the src/playwright.ts helpers as parameterized steps so features can
+ * be written without a step file or repository module. Every step runs on the
+ * scenario's page from the World (src/world.ts), opening a browser on first use,
+ * and accepts the usual selector prefixes
+ * (`id:`, `css:`, `text:`, `role:`, ... — see src/selector.ts).
+ *
+ * @example
+ * ```gherkin
+ * Given I open "https://www.saucedemo.com/"
+ * When I type "standard_user" into "id:user-name"
+ * And I click "id:login-button"
+ * Then the URL should be "https://www.saucedemo.com/inventory.html"
+ * And "css:.title" should have text "Products"
+ * ```
+ *
+ * Assertion steps retry until they hold (see src/expect.ts).
+ *
+ * URLs may be relative to the base URL of the active TEST_ENV
+ * (`Given I open "/"`, `Then the URL should be "/inventory.html"`).
+ */
+import assert from 'assert';
+import { Given, When, Then } from '@cucumber/cucumber';
+import {
+  goTo,
+  refresh,
+  goBack,
+  goForward,
+  waitUntilUrl,
+  input,
+  sendInput,
+  clearInput,
+  pressKey,
+  submitInput,
+  click,
+  doubleClick,
+  rightClick,
+  check,
+  uncheck,
+  selectOption,
+  hover,
+  scrollToElement,
+  scrollBy,
+  uploadFile,
+  wait,
+  waitUntilVisible,
+  waitUntilHidden,
+  isElementPresent,
+  takeShoot,
+} from '@/playwright';
+import { expectElement, expectPage } from '@/expect';
+import { type PlaywrightWorld } from '@/world';
+
+// ============================================================================
+// NAVIGATION
+// ============================================================================
+
+Given('I open the browser', async function (this: PlaywrightWorld) {
+  await this.ensurePage();
+});
+
+Given('I open {string}', async function (this: PlaywrightWorld, url: string) {
+  await goTo(await this.ensurePage(), url);
+});
+
+When('I go to {string}', async function (this: PlaywrightWorld, url: string) {
+  await goTo(await this.ensurePage(), url);
+});
+
+When('I refresh the page', async function (this: PlaywrightWorld) {
+  await refresh(await this.ensurePage());
+});
+
+When('I go back', async function (this: PlaywrightWorld) {
+  await goBack(await this.ensurePage());
+});
+
+When('I go forward', async function (this: PlaywrightWorld) {
+  await goForward(await this.ensurePage());
+});
+
+Then('the URL should be {string}', async function (this: PlaywrightWorld, url: string) {
+  await waitUntilUrl(await this.ensurePage(), url);
+});
+
+Then('the title should be {string}', async function (this: PlaywrightWorld, title: string) {
+  await expectPage(await this.ensurePage()).toHaveTitle(title);
+});
+
+// ============================================================================
+// INPUT
+// ============================================================================
+
+When('I type {string} into {string}', async function (this: PlaywrightWorld, value: string, selector: string) {
+  await input(await this.ensurePage(), selector, value);
+});
+
+When('I append {string} to {string}', async function (this: PlaywrightWorld, value: string, selector: string) {
+  await sendInput(await this.ensurePage(), selector, value);
+});
+
+When('I clear {string}', async function (this: PlaywrightWorld, selector: string) {
+  await clearInput(await this.ensurePage(), selector);
+});
+
+When('I press {string} on {string}', async function (this: PlaywrightWorld, key: string, selector: string) {
+  await pressKey(await this.ensurePage(), selector, key);
+});
+
+When('I submit {string}', async function (this: PlaywrightWorld, selector: string) {
+  await submitInput(await this.ensurePage(), selector);
+});
+
+When('I upload {string} to {string}', async function (this: PlaywrightWorld, filePath: string, selector: string) {
+  await uploadFile(await this.ensurePage(), selector, filePath);
+});
+
+// ============================================================================
+// CLICKS, CHECKS & SELECTS
+// ============================================================================
+
+When('I click {string}', async function (this: PlaywrightWorld, selector: string) {
+  await click(await this.ensurePage(), selector);
+});
+
+When('I double click {string}', async function (this: PlaywrightWorld, selector: string) {
+  await doubleClick(await this.ensurePage(), selector);
+});
+
+When('I right click {string}', async function (this: PlaywrightWorld, selector: string) {
+  await rightClick(await this.ensurePage(), selector);
+});
+
+When('I check {string}', async function (this: PlaywrightWorld, selector: string) {
+  await check(await this.ensurePage(), selector);
+});
+
+When('I uncheck {string}', async function (this: PlaywrightWorld, selector: string) {
+  await uncheck(await this.ensurePage(), selector);
+});
+
+When('I select {string} from {string}', async function (this: PlaywrightWorld, value: string, selector: string) {
+  await selectOption(await this.ensurePage(), selector, value);
+});
+
+When('I hover over {string}', async function (this: PlaywrightWorld, selector: string) {
+  await hover(await this.ensurePage(), selector);
+});
+
+// ============================================================================
+// SCROLLING & WAITING
+// ============================================================================
+
+When('I scroll to {string}', async function (this: PlaywrightWorld, selector: string) {
+  await scrollToElement(await this.ensurePage(), selector);
+});
+
+When('I scroll by {int}, {int}', async function (this: PlaywrightWorld, x: number, y: number) {
+  await scrollBy(await this.ensurePage(), x, y);
+});
+
+When('I wait {int} ms', async function (ms: number) {
+  await wait(ms);
+});
+
+When('I wait for {string}', async function (this: PlaywrightWorld, selector: string) {
+  await waitUntilVisible(await this.ensurePage(), selector);
+});
+
+When('I wait for {string} to disappear', async function (this: PlaywrightWorld, selector: string) {
+  await waitUntilHidden(await this.ensurePage(), selector);
+});
+
+When('I take a screenshot', async function (this: PlaywrightWorld) {
+  await takeShoot(await this.ensurePage());
+});
+
+// ============================================================================
+// ASSERTIONS
+// ============================================================================
+
+Then('{string} should be visible', async function (this: PlaywrightWorld, selector: string) {
+  await expectElement(await this.ensurePage(), selector).toBeVisible();
+});
+
+Then('{string} should not be visible', async function (this: PlaywrightWorld, selector: string) {
+  await expectElement(await this.ensurePage(), selector).toBeHidden();
+});
+
+Then('{string} should exist', async function (this: PlaywrightWorld, selector: string) {
+  assert.ok(await isElementPresent(await this.ensurePage(), selector), `Expected "${selector}" to exist`);
+});
+
+Then('{string} should be enabled', async function (this: PlaywrightWorld, selector: string) {
+  await expectElement(await this.ensurePage(), selector).toBeEnabled();
+});
+
+Then('{string} should be disabled', async function (this: PlaywrightWorld, selector: string) {
+  await expectElement(await this.ensurePage(), selector).toBeDisabled();
+});
+
+Then('{string} should be checked', async function (this: PlaywrightWorld, selector: string) {
+  await expectElement(await this.ensurePage(), selector).toBeChecked();
+});
+
+Then('{string} should not be checked', async function (this: PlaywrightWorld, selector: string) {
+  await expectElement(await this.ensurePage(), selector).toBeUnchecked();
+});
+
+Then('{string} should have text {string}', async function (this: PlaywrightWorld, selector: string, text: string) {
+  await expectElement(await this.ensurePage(), selector).toHaveText(text);
+});
+
+Then('{string} should contain text {string}', async function (this: PlaywrightWorld, selector: string, text: string) {
+  await expectElement(await this.ensurePage(), selector).toContainText(text);
+});
+
+Then('{string} should have value {string}', async function (this: PlaywrightWorld, selector: string, value: string) {
+  await expectElement(await this.ensurePage(), selector).toHaveValue(value);
+});
+
+Then('{string} should have attribute {string} with value {string}', async function (this: PlaywrightWorld, selector: string, attribute: string, value: string) {
+  await expectElement(await this.ensurePage(), selector).toHaveAttribute(attribute, value);
+});
+
+Then('{string} should have css {string} with value {string}', async function (this: PlaywrightWorld, selector: string, property: string, value: string) {
+  await expectElement(await this.ensurePage(), selector).toHaveCss(property, value);
+});
+
+Then('there should be {int} {string} elements', async function (this: PlaywrightWorld, count: number, selector: string) {
+  await expectElement(await this.ensurePage(), selector).toHaveCount(count);
+});
+
+Then('the page should contain {string}', async function (this: PlaywrightWorld, text: string) {
+  await expectElement(await this.ensurePage(), 'css:body').toContainText(text);
+});
@@ -0,0 +1,50 @@
+/**
+ * Network mocking steps
+ *
+ * Gherkin wrappers around src/network.ts. Register routes before the page
+ * navigates so the first requests are already intercepted.
+ *
+ * @example
+ * ```gherkin
+ * Given the API "GET /api/items" returns fixture "items-empty.json"
+ * And the API "POST /api/cart" returns status 500
+ * And the API "GET /api/prices" is delayed by 3000 ms
+ * And requests to "**\/analytics/**" are blocked
+ * When I open "/shop"
+ * ```
+ */
+import { Given } from '@cucumber/cucumber';
+import { mockRoute, abortRequests, delayRoute, clearRoutes } from '@/network';
+import { type PlaywrightWorld } from '@/world';
+
+Given('the API {string} returns fixture {string}', async function (this: PlaywrightWorld, pattern: string, fixture: string) {
+  await mockRoute(await this.ensurePage(), pattern, fixture);
+});
+
+Given('the API {string} returns status {int}', async function (this: PlaywrightWorld, pattern: string, status: number) {
+  await mockRoute(await this.ensurePage(), pattern, { status });
+});
+
+Given('the API {string} returns status {int} with body:', async function (this: PlaywrightWorld, pattern: string, status: number, body: string) {
+  let parsed: unknown = body;
+  try {
+    parsed = JSON.parse(body);
+  } catch { }
+  await mockRoute(await this.ensurePage(), pattern, { status, body: parsed });
+});
+
+Given('the API {string} is delayed by {int} ms', async function (this: PlaywrightWorld, pattern: string, ms: number) {
+  await delayRoute(await this.ensurePage(), pattern, ms);
+});
+
+Given('the API {string} fails', async function (this: PlaywrightWorld, pattern: string) {
+  await abortRequests(await this.ensurePage(), pattern);
+});
+
+Given('requests to {string} are blocked', async function (this: PlaywrightWorld, pattern: string) {
+  await abortRequests(await this.ensurePage(), pattern, 'blockedbyclient');
+});
+
+Given('all network mocks are cleared', async function (this: PlaywrightWorld) {
+  await clearRoutes(await this.ensurePage());
+});
@@ -0,0 +1,50 @@
+/**
+ * Visual regression steps
+ *
+ * Gherkin wrappers around compareScreenshot() in src/visual.ts. Baselines are
+ * kept per engine and per the scenario's profile; on a mismatch the baseline,
+ * actual and diff images are attached to the report.
+ *
+ * @example
+ * ```gherkin
+ * Then the page should match snapshot "login"
+ * And "css:.inventory_list" should match snapshot "inventory-list"
+ * And the page should match snapshot "inventory" with masks:
+ *   | css:.inventory_item_price |
+ * ```
+ */
+import fs from 'fs';
+import { Then, type DataTable } from '@cucumber/cucumber';
+import { compareScreenshot, type CompareOptions } from '@/visual';
+import { type PlaywrightWorld } from '@/world';
+
+async function assertSnapshot(world: PlaywrightWorld, name: string, options: CompareOptions): Promise<void> {
+  const result = await compareScreenshot(await world.ensurePage(), name, {
+    ...options,
+    profile: world.profileNames.join('+') || 'default',
+  });
+
+  if (result.baselineWritten) {
+    world.attach(result.message, 'text/plain');
+    return;
+  }
+  if (result.match) return;
+
+  world.attach(result.message, 'text/plain');
+  for (const file of [result.baselinePath, result.actualPath, result.diffPath]) {
+    if (file && fs.existsSync(file)) world.attach(fs.readFileSync(file), 'image/png');
+  }
+  throw new Error(result.message);
+}
+
+Then('the page should match snapshot {string}', async function (this: PlaywrightWorld, name: string) {
+  await assertSnapshot(this, name, {});
+});
+
+Then('the page should match snapshot {string} with masks:', async function (this: PlaywrightWorld, name: string, masks: DataTable) {
+  await assertSnapshot(this, name, { mask: masks.raw().map((row) => row[0]) });
+});
+
+Then('{string} should match snapshot {string}', async function (this: PlaywrightWorld, selector: string, name: string) {
+  await assertSnapshot(this, name, { selector });
+});
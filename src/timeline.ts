@@ -0,0 +1,219 @@
+/**
+ * Per-scenario action timeline
+ *
+ * Every exported helper in src/playwright.ts logs one entry per call: the
+ * action, selector, value (masked for password fields), duration, result and,
+ * optionally, before/after screenshots. The hooks attach each step's entries
+ * to the Cucumber report as a collapsible table. Every process saves its
+ * scenarios to its own file under `timeline/`; mergeTimelines() combines them
+ * into `cucumber-timeline.json` next to `cucumber-report.json` when the
+ * reports are generated.
+ *
+ * Helpers that call other helpers (sendInput → input) are logged once, as the
+ * outermost call.
+ *
+ * @remarks
+ * Environment variables:
+ * - TIMELINE_SCREENSHOTS: 'true' to capture a screenshot before and after every action
+ */
+import { AsyncLocalStorage } from 'async_hooks';
+import { type Page } from 'playwright';
+import fs from 'fs';
+import path from 'path';
+import { toLocator } from '@/selector';
+import { currentRunId, outputPath, readProcessFile, readRunFiles } from '@/output';
+
+export const TIMELINE_FILE = outputPath('cucumber-timeline.json');
+/** One file per process of the run, see src/output.ts */
+export const TIMELINE_DIR = outputPath('timeline');
+const TIMELINE_SCREENSHOTS_DIR = outputPath('screenshots', 'timeline');
+
+export interface ActionLogEntry {
+  action: string;
+  selector?: string;
+  /** Value typed/selected ('******' for password fields), or the URL / scroll offsets of a navigation */
+  value?: string;
+  /** Gherkin step the action ran in */
+  step?: string;
+  url: string;
+  startedAt: string;
+  durationMs: number;
+  result: 'passed' | 'failed';
+  error?: string;
+  screenshots?: { before?: string; after?: string };
+}
+
+export interface ScenarioTimeline {
+  feature: string;
+  scenario: string;
+  attempt: number;
+  status: string;
+  actions: ActionLogEntry[];
+}
+
+interface TimelineFile {
+  runId: number;
+  scenarios: ScenarioTimeline[];
+}
+
+const actionScope = new AsyncLocalStorage<boolean>();
+
+let currentStep: string | undefined;
+let scenarioEntries: ActionLogEntry[] = [];
+let stepEntries: ActionLogEntry[] = [];
+
+function screenshotsEnabled(): boolean {
+  return String(process.env.TIMELINE_SCREENSHOTS ?? 'false') === 'true';
+}
+
+/**
+ * Whether a value entered into the field must be masked. Checked once the
+ * action has run, so the field exists; when it can't be checked (the action
+ * failed, the page moved on) the value is masked.
+ */
+async function isSecretField(page: Page, selector: string): Promise<boolean> {
+  if (/pass(word)?|secret|token/i.test(selector)) return true;
+  try {
+    return await toLocator(page, selector)
+      .first()
+      .evaluate((el: any) => el.type === 'password', undefined, { timeout: 1000 });
+  } catch {
+    return true;
+  }
+}
+
+async function capture(page: Page, action: string, phase: 'before' | 'after'): Promise<string | undefined> {
+  try {
+    if (!fs.existsSync(TIMELINE_SCREENSHOTS_DIR)) fs.mkdirSync(TIMELINE_SCREENSHOTS_DIR, { recursive: true });
+    const ts = new Date().toISOString().replace(/[:.]/g, '-');
+    const filePath = path.join(TIMELINE_SCREENSHOTS_DIR, `${ts}-${action}-${phase}.png`);
+    await page.screenshot({ path: filePath });
+    return path.relative(process.cwd(), filePath);
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * Run a helper body and log it to the timeline (nested helper calls are not logged).
+ *
+ * @param page - Page the action runs on
+ * @param info - Action name, selector and the value being entered, if any
+ * @param fn - The helper body
+ */
+export async function logAction<T>(
+  page: Page,
+  info: { action: string; selector?: string; value?: string },
+  fn: () => Promise<T>
+): Promise<T> {
+  if (actionScope.getStore()) return fn();
+
+  return actionScope.run(true, async () => {
+    const { action, selector, value } = info;
+    const shots = screenshotsEnabled();
+    const before = shots ? await capture(page, action, 'before') : undefined;
+    const startedAt = new Date();
+    const entry: ActionLogEntry = {
+      action,
+      selector,
+      step: currentStep,
+      url: page.url(),
+      startedAt: startedAt.toISOString(),
+      durationMs: 0,
+      result: 'passed',
+    };
+
+    try {
+      return await fn();
+    } catch (e: any) {
+      entry.result = 'failed';
+      entry.error = String(e?.message ?? e).split('\n')[0];
+      throw e;
+    } finally {
+      entry.durationMs = Date.now() - startedAt.getTime();
+      if (value !== undefined) {
+        // A failed action may not have found the field: don't wait for it, mask the value
+        const secret = !!selector && (entry.result === 'failed' || (await isSecretField(page, selector)));
+        entry.value = secret ? '******' : value;
+      }
+      if (shots) entry.screenshots = { before, after: await capture(page, action, 'after') };
+      scenarioEntries.push(entry);
+      stepEntries.push(entry);
+    }
+  });
+}
+
+/**
+ * Start a fresh timeline for a scenario.
+ */
+export function startScenarioTimeline(): void {
+  currentStep = undefined;
+  scenarioEntries = [];
+  stepEntries = [];
+}
+
+/**
+ * Mark the Gherkin step that following actions belong to.
+ */
+export function setTimelineStep(step: string): void {
+  currentStep = step;
+  stepEntries = [];
+}
+
+/**
+ * Return the actions logged since the current step started.
+ */
+export function takeStepActions(): ActionLogEntry[] {
+  const entries = stepEntries;
+  stepEntries = [];
+  return entries;
+}
+
+function escapeHtml(value: string): string {
+  return value.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+}
+
+/**
+ * Render a step's actions as a collapsible HTML table for the report.
+ */
+export function renderTimelineHtml(entries: ActionLogEntry[]): string {
+  const failed = entries.some((e) => e.result === 'failed');
+  const total = entries.reduce((sum, e) => sum + e.durationMs, 0);
+  const rows = entries
+    .map((e) => {
+      const shots = [e.screenshots?.before, e.screenshots?.after]
+        .filter(Boolean)
+        .map((p, i) => `<a href="${escapeHtml(p as string)}">${i === 0 ? 'before' : 'after'}</a>`)
+        .join(' ');
+      return `<tr><td>${escapeHtml(e.action)}</td><td><code>${escapeHtml(e.selector ?? '')}</code></td><td>${escapeHtml(e.value ?? '')}</td><td>${e.durationMs}ms</td><td>${e.result}${e.error ? `: ${escapeHtml(e.error)}` : ''}</td><td>${shots}</td></tr>`;
+    })
+    .join('');
+  return `<details${failed ? ' open' : ''}><summary>Actions (${entries.length}, ${total}ms)</summary><table class="table table-condensed"><thead><tr><th>Action</th><th>Selector</th><th>Value</th><th>Duration</th><th>Result</th><th>Screenshots</th></tr></thead><tbody>${rows}</tbody></table></details>`;
+}
+
+/**
+ * Add the finished scenario's timeline to this process's file under `timeline/`.
+ */
+export function saveScenarioTimeline(info: Omit<ScenarioTimeline, 'actions'>): ScenarioTimeline {
+  const timeline: ScenarioTimeline = { ...info, actions: scenarioEntries };
+  const { file, contents } = readProcessFile<TimelineFile>(TIMELINE_DIR);
+  const saved = contents ?? { runId: currentRunId(), scenarios: [] };
+  saved.scenarios.push(timeline);
+  fs.writeFileSync(file, JSON.stringify(saved, null, 2));
+  return timeline;
+}
+
+/**
+ * Combine the latest run's timeline files into cucumber-timeline.json. Nothing
+ * is written when the directories hold no timeline.
+ *
+ * @param dirs - Timeline directories (default: this run's); several for the child runs of a matrix or shards
+ * @returns Number of scenarios written
+ */
+export function mergeTimelines(dirs: string[] = [TIMELINE_DIR], out = TIMELINE_FILE): number {
+  const files = dirs.flatMap((dir) => readRunFiles<TimelineFile>(dir));
+  if (!files.length) return 0;
+  const scenarios = files.flatMap((f) => f.scenarios);
+  fs.writeFileSync(out, JSON.stringify({ runId: files[files.length - 1].runId, scenarios }, null, 2));
+  return scenarios.length;
+}
@@ -0,0 +1,78 @@
+/**
+ * Playwright trace capture
+ *
+ * Traces (screenshots, DOM snapshots, network and sources) are started on the
+ * contexts created by openBrowser() and saved per scenario as a zip under
+ * `traces/`, viewable with `npx playwright show-trace <file>`.
+ *
+ * @remarks
+ * Environment variables:
+ * - TRACE: Which traces are kept
+ *   - 'off' (default): no tracing
+ *   - 'on': keep a trace for every scenario
+ *   - 'retain-on-failure': trace every scenario, keep only failures
+ *   - 'on-first-retry': trace only the first retry of a scenario, and keep it
+ */
+import { type Page } from 'playwright';
+import fs from 'fs';
+import path from 'path';
+import { outputPath } from '@/output';
+
+export const TRACES_DIR = outputPath('traces');
+
+export type TracePolicy = 'off' | 'on' | 'retain-on-failure' | 'on-first-retry';
+
+export function getTracePolicy(): TracePolicy {
+  const val = String(process.env.TRACE ?? 'off').toLowerCase();
+  if (val === 'on' || val === 'true') return 'on';
+  if (val === 'retain-on-failure') return 'retain-on-failure';
+  if (val === 'on-first-retry') return 'on-first-retry';
+  return 'off';
+}
+
+/**
+ * Whether an attempt of a scenario should be traced.
+ *
+ * @param attempt - 0 for the first run, 1 for the first retry, ...
+ */
+export function shouldTrace(policy: TracePolicy, attempt = 0): boolean {
+  if (policy === 'off') return false;
+  if (policy === 'on-first-retry') return attempt === 1;
+  return true;
+}
+
+/**
+ * Start tracing on a page's context.
+ */
+export async function startTrace(page: Page): Promise<void> {
+  await page.context().tracing.start({ screenshots: true, snapshots: true, sources: true });
+}
+
+/**
+ * Stop tracing on a page's context, saving the trace when it should be kept.
+ *
+ * @param page - Page whose context is being traced (must still be open)
+ * @param scenarioName - Used to name the trace file
+ * @param keep - Save the trace; otherwise it is discarded
+ * @param attempt - Attempt number, part of the file name so retries don't overwrite
+ * @returns Path of the saved trace, or undefined if it was discarded
+ */
+export async function stopTrace(page: Page, scenarioName: string, keep: boolean, attempt = 0): Promise<string | undefined> {
+  if (!keep) {
+    await page.context().tracing.stop();
+    return undefined;
+  }
+  if (!fs.existsSync(TRACES_DIR)) fs.mkdirSync(TRACES_DIR, { recursive: true });
+  const safe = scenarioName.replace(/[^a-z0-9]/gi, '_');
+  const ts = new Date().toISOString().replace(/[:.]/g, '-');
+  const filePath = path.join(TRACES_DIR, `${safe}-attempt${attempt + 1}-${ts}.zip`);
+  await page.context().tracing.stop({ path: filePath });
+  return filePath;
+}
+
+/**
+ * Whether a finished scenario's trace should be kept under a policy.
+ */
+export function shouldKeepTrace(policy: TracePolicy, failed: boolean): boolean {
+  return policy === 'retain-on-failure' ? failed : policy !== 'off';
+}
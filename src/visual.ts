@@ -0,0 +1,159 @@
+/**
+ * Visual regression testing
+ *
+ * Compares screenshots against baselines stored per browser engine and
+ * profile under `snapshots/<engine>/<profile>/<name>.png`. A run with
+ * UPDATE_SNAPSHOTS=true writes the baselines; other runs diff against them
+ * pixel by pixel, and a missing baseline is a mismatch, so a new or renamed
+ * snapshot can't pass without being compared. The actual screenshot and a
+ * diff image of each mismatch are written to `visual-results/`.
+ *
+ * @example
+ * ```ts
+ * const result = await compareScreenshot(page, 'inventory', {
+ *   mask: ['css:.inventory_item_price'],
+ *   threshold: 0.2,
+ * });
+ * if (!result.match) throw new Error(result.message);
+ * ```
+ *
+ * @remarks
+ * Environment variables:
+ * - UPDATE_SNAPSHOTS: 'true' to overwrite baselines with the current screenshots
+ *   (`npm run e2e -- run --update-snapshots` sets it)
+ */
+import { type Page } from 'playwright';
+import fs from 'fs';
+import path from 'path';
+import { PNG } from 'pngjs';
+import pixelmatch from 'pixelmatch';
+import { toLocator } from '@/selector';
+import { outputPath } from '@/output';
+
+export const SNAPSHOTS_DIR = path.join(process.cwd(), 'snapshots');
+export const VISUAL_RESULTS_DIR = outputPath('visual-results');
+
+export interface CompareOptions {
+  /** Only capture this element instead of the page */
+  selector?: string;
+  /** Selectors of dynamic regions to paint over before comparing */
+  mask?: string[];
+  /** Per-pixel color distance tolerated, 0..1 (default: 0.2) */
+  threshold?: number;
+  /** Share of pixels allowed to differ, 0..1 (default: 0) */
+  maxDiffPixelRatio?: number;
+  /** Capture the full scrollable page (ignored with selector) */
+  fullPage?: boolean;
+  /** Profile label the baseline is stored under (default: 'default') */
+  profile?: string;
+}
+
+export interface CompareResult {
+  match: boolean;
+  /** True when the baseline was updated (UPDATE_SNAPSHOTS) with this screenshot */
+  baselineWritten: boolean;
+  diffPixels: number;
+  diffRatio: number;
+  baselinePath: string;
+  actualPath?: string;
+  diffPath?: string;
+  message: string;
+}
+
+export function shouldUpdateSnapshots(): boolean {
+  return String(process.env.UPDATE_SNAPSHOTS ?? 'false') === 'true';
+}
+
+function snapshotSlug(value: string): string {
+  return value.replace(/[^a-z0-9_.-]/gi, '_');
+}
+
+/**
+ * Screenshot the page (or an element) and compare it with the stored baseline.
+ *
+ * @param page - The Page instance
+ * @param name - Snapshot name, unique per engine and profile
+ * @param options - Region, masks and tolerances
+ * @returns The comparison result; a mismatch does not throw
+ */
+export async function compareScreenshot(page: Page, name: string, options: CompareOptions = {}): Promise<CompareResult> {
+  const { selector, mask = [], threshold = 0.2, maxDiffPixelRatio = 0, fullPage = false, profile = 'default' } = options;
+  const engine = page.context().browser()?.browserType().name() ?? 'unknown';
+  const subdir = path.join(engine, snapshotSlug(profile));
+  const file = `${snapshotSlug(name)}.png`;
+  const baselinePath = path.join(SNAPSHOTS_DIR, subdir, file);
+
+  const shotOptions = { mask: mask.map((m) => toLocator(page, m)), animations: 'disabled' as const, caret: 'hide' as const };
+  const actual = selector
+    ? await toLocator(page, selector).first().screenshot(shotOptions)
+    : await page.screenshot({ ...shotOptions, fullPage });
+
+  if (shouldUpdateSnapshots()) {
+    fs.mkdirSync(path.dirname(baselinePath), { recursive: true });
+    fs.writeFileSync(baselinePath, actual);
+    return {
+      match: true,
+      baselineWritten: true,
+      diffPixels: 0,
+      diffRatio: 0,
+      baselinePath,
+      message: `Baseline written: ${path.relative(process.cwd(), baselinePath)}`,
+    };
+  }
+
+  const resultsDir = path.join(VISUAL_RESULTS_DIR, subdir);
+  fs.mkdirSync(resultsDir, { recursive: true });
+  const actualPath = path.join(resultsDir, file.replace(/\.png$/, '-actual.png'));
+  fs.writeFileSync(actualPath, actual);
+
+  if (!fs.existsSync(baselinePath)) {
+    return {
+      match: false,
+      baselineWritten: false,
+      diffPixels: 0,
+      diffRatio: 0,
+      baselinePath,
+      actualPath,
+      message: `Baseline missing: ${path.relative(process.cwd(), baselinePath)}. Rerun with --update-snapshots (UPDATE_SNAPSHOTS=true) to create it`,
+    };
+  }
+
+  const expectedPng = PNG.sync.read(fs.readFileSync(baselinePath));
+  const actualPng = PNG.sync.read(actual);
+  const { width, height } = expectedPng;
+  if (actualPng.width !== width || actualPng.height !== height) {
+    return {
+      match: false,
+      baselineWritten: false,
+      diffPixels: width * height,
+      diffRatio: 1,
+      baselinePath,
+      actualPath,
+      message: `Snapshot "${name}" size changed: expected ${width}x${height}, got ${actualPng.width}x${actualPng.height}`,
+    };
+  }
+
+  const diff = new PNG({ width, height });
+  const diffPixels = pixelmatch(expectedPng.data, actualPng.data, diff.data, width, height, { threshold });
+  const diffRatio = diffPixels / (width * height);
+  const match = diffRatio <= maxDiffPixelRatio;
+
+  let diffPath: string | undefined;
+  if (!match) {
+    diffPath = path.join(resultsDir, file.replace(/\.png$/, '-diff.png'));
+    fs.writeFileSync(diffPath, PNG.sync.write(diff));
+  }
+
+  return {
+    match,
+    baselineWritten: false,
+    diffPixels,
+    diffRatio,
+    baselinePath,
+    actualPath,
+    diffPath,
+    message: match
+      ? `Snapshot "${name}" matches (${diffPixels} pixels differ)`
+      : `Snapshot "${name}" differs: ${diffPixels} pixels (${(diffRatio * 100).toFixed(2)}%) exceed the allowed ${(maxDiffPixelRatio * 100).toFixed(2)}%`,
+  };
+}
@@ -0,0 +1,156 @@
+/**
+ * Per-scenario Cucumber World
+ *
+ * Each scenario gets its own World instance owning the context and page it
+ * opened, so nothing leaks between scenarios and runs stay safe under
+ * `cucumber-js --parallel`. The browser process itself may be shared according
+ * to BROWSER_REUSE (see src/lifecycle.ts). Step definitions reach the page
+ * through `this`.
+ *
+ * @example
+ * ```ts
+ * When('I log in', async function (this: PlaywrightWorld) {
+ *   await input(this.page, 'id:user-name', 'standard_user');
+ * });
+ * ```
+ */
+import { setWorldConstructor, World } from '@cucumber/cucumber';
+import { type APIRequestContext, type Browser, type BrowserContext, type Page } from 'playwright';
+import { type WebDriver } from 'selenium-webdriver';
+import { openBrowser, closeBrowser, getBrowserEngine, isHeadless, type OpenBrowserOptions } from '@/playwright';
+import { acquireBrowser } from '@/lifecycle';
+import { resolveProfile } from '@/profiles';
+import { addRunMetadata } from '@/metadata';
+import { RECORDINGS_DIR, getRecordingMode, type RecordingPolicy } from '@/recording';
+import { getTracePolicy, shouldTrace } from '@/tracing';
+import { getNetworkMode, harPathFor } from '@/har';
+import { newApiContext, type ApiContextOptions, type ApiResponse } from '@/api';
+
+export class PlaywrightWorld extends World {
+  browser?: Browser;
+  context?: BrowserContext;
+  /** Legacy Selenium driver, screenshotted by the After hook when set */
+  driver?: WebDriver;
+  /** Name of the running scenario, set by the Before hook */
+  scenarioName = '';
+  /** Text of the running step, set by the BeforeStep hook */
+  stepText = '';
+  /** Feature file of the running scenario, set by the Before hook */
+  featureUri = '';
+  /** Tag names of the running scenario, set by the Before hook */
+  tags: string[] = [];
+  /** Profiles applied to this scenario's context */
+  profileNames: string[] = [];
+  /** Recording policy of this scenario, set by the Before hook */
+  recordingPolicy: RecordingPolicy = 'off';
+  /** 0 for the first run of the scenario, 1 for the first retry, ... */
+  attempt = 0;
+  /** Whether this scenario's context is being traced */
+  tracing = false;
+  /** Base URL, auth and headers of this scenario's API context */
+  apiOptions: ApiContextOptions = {};
+  /** Last API response, checked by the response steps */
+  response?: ApiResponse;
+  /** Values saved from API responses, substituted into later requests as `{{name}}` */
+  vars: Record<string, string> = {};
+
+  private activePage?: Page;
+  private apiContext?: APIRequestContext;
+
+  /**
+   * The page opened for this scenario.
+   *
+   * @throws Error if no browser has been opened yet
+   */
+  get page(): Page {
+    if (!this.activePage) {
+      throw new Error('No browser is open for this scenario. Open one first (e.g. "Given I open the browser").');
+    }
+    return this.activePage;
+  }
+
+  get hasPage(): boolean {
+    return !!this.activePage && !this.activePage.isClosed();
+  }
+
+  /**
+   * Open a fresh context and page for this scenario and make the page current.
+   * The context uses the profile selected by E2E_PROFILE and the scenario tags,
+   * records video when the scenario's recording policy asks for it, traces
+   * according to TRACE and records/replays the feature's HAR per NETWORK_MODE.
+   */
+  async openBrowser(): Promise<Page> {
+    const shared = await acquireBrowser(this.featureUri);
+    const profile = resolveProfile(this.tags, shared?.browserType().name() ?? getBrowserEngine());
+    const options: OpenBrowserOptions = {
+      ...profile.options,
+      trace: shouldTrace(getTracePolicy(), this.attempt),
+      har: harPathFor(this.featureUri),
+    };
+    if (this.recordingPolicy !== 'off' && getRecordingMode() === 'playwright') {
+      options.recordVideo = { dir: RECORDINGS_DIR, size: options.viewport ?? undefined };
+    }
+    const page = await openBrowser(shared, options);
+    this.tracing = !!options.trace;
+    this.profileNames = profile.names;
+    const label = profile.names.join(' + ') || 'default';
+    const browser = page.context().browser();
+    if (browser) addRunMetadata('Browser', `${browser.browserType().name()} ${browser.version()}`);
+    addRunMetadata('Headless', String(isHeadless()));
+    addRunMetadata('Profile', label);
+    addRunMetadata('Network Mode', getNetworkMode());
+    this.attach(`Profile: ${label}`, 'text/plain');
+    this.activePage = page;
+    this.context = page.context();
+    this.browser = this.context.browser() ?? undefined;
+    return page;
+  }
+
+  /**
+   * Return the current page, opening a browser first if none is active.
+   */
+  async ensurePage(): Promise<Page> {
+    return this.hasPage ? this.page : this.openBrowser();
+  }
+
+  /**
+   * Close the page and context this scenario opened (and the browser when it
+   * is not shared). Safe to call more than once.
+   */
+  async closeBrowser(): Promise<void> {
+    const page = this.activePage;
+    this.activePage = undefined;
+    this.tracing = false;
+    this.context = undefined;
+    this.browser = undefined;
+    if (page) await closeBrowser(page);
+  }
+
+  /**
+   * Return this scenario's API context, creating it from apiOptions if needed.
+   */
+  async ensureApi(): Promise<APIRequestContext> {
+    this.apiContext ??= await newApiContext(this.apiOptions);
+    return this.apiContext;
+  }
+
+  /**
+   * Change the API context options. The next request uses a new context with
+   * the merged options; headers are merged with the ones already set.
+   */
+  async configureApi(options: ApiContextOptions): Promise<void> {
+    this.apiOptions = { ...this.apiOptions, ...options, headers: { ...this.apiOptions.headers, ...options.headers } };
+    await this.disposeApi();
+  }
+
+  /**
+   * Dispose the API context. Safe to call more than once.
+   */
+  async disposeApi(): Promise<void> {
+    const api = this.apiContext;
+    this.apiContext = undefined;
+    if (api) await api.dispose();
+  }
+}
+
+setWorldConstructor(PlaywrightWorld);
@@ -0,0 +1,289 @@
+import fs from 'fs';
+import path from 'path';
+import { listFeatures } from '@/features';
+import { type ExportFormat } from '@/playwright';
+import {
+  BROWSERS,
+  EXIT_CODES,
+  EXPORT_FORMATS,
+  generateReports,
+  matrixCells,
+  resolveFeatures,
+  runCucumber,
+  runMatrix,
+  runOutcome,
+  runShards,
+  runWdio,
+  shardPlan,
+  type MatrixCell,
+  type RunOptions,
+} from '@/runner';
+import { parseShard, type Shard, type ShardStrategy } from '@/shard';
+
+const USAGE = `Usage: npm run e2e -- <command> [options]
+
+Commands:
+  run [features...]     Run features (names, paths, paths:line or globs; default: all)
+  matrix [features...]  Run features in several browsers (and profiles) side by side
+  list [features...]    List features and their scenarios
+  report                Regenerate the reports from the last run
+  clean                 Delete screenshots, recordings, traces and generated reports
+
+Run options:
+  --tags <expr>          Tag expression, e.g. "@smoke and not @wip" (repeat to AND them)
+  --env <name>           Environment config (config/<name>.json)
+  --browser <engine>     chromium, firefox or webkit
+  --profile <names>      Device/locale profiles, comma separated
+  --workers <n>          Parallel workers
+  --retries <n>          Retry failing scenarios n times
+  --retry-tags <expr>    Only retry scenarios matching the tag expression
+  --format <formats>     Also export junit, tap and/or markdown (comma separated or repeated)
+  --headed               Show the browser window
+  --update-snapshots     Overwrite visual baselines
+  --android              Run the WDIO Android specs (android/<name>.test.ts) instead
+  --shard <i/n>          Only run shard i of n, e.g. 2/4 (one per CI machine)
+  --shards <n>           Split into n shards and run them side by side
+  --shard-by <unit>      Shard whole features (default) or single scenarios: feature, scenario
+  --pool <n>             Shards running at once with --shards (default: all)
+                         Shards are balanced by the scenario durations in reports/history
+
+Matrix options (plus the run options except --browser and --android):
+  --browsers <engines>   Comma separated (default: chromium,firefox,webkit)
+  --profiles <names>     Also split by profile; repeat for each profile set
+                         Tag scenarios @skip-<engine> to leave them out of that browser
+
+List options:
+  --shard <i/n>, --shards <n>, --shard-by <unit>   Show the shard plan instead
+
+Clean options:
+  --all                  Also delete the run history and stored server runs (reports/)
+
+Exit codes: 0 passed, 1 scenarios failed, 2 invalid command line, 3 run or report error
+Failures of scenarios quarantined in config/quarantine.json don't count; expired entries fail the run`;
+
+class UsageError extends Error { }
+
+const VALUE_OPTIONS = ['--tags', '--env', '--browser', '--browsers', '--profile', '--profiles', '--workers', '--retries', '--retry-tags', '--format', '--shard', '--shards', '--shard-by', '--pool'];
+const FLAG_OPTIONS = ['--headed', '--update-snapshots', '--android', '--all', '--help'];
+
+interface ParsedArgs {
+  command?: string;
+  positional: string[];
+  values: Record<string, string[]>;
+  flags: Set<string>;
+}
+
+function parseArgs(argv: string[]): ParsedArgs {
+  const parsed: ParsedArgs = { positional: [], values: {}, flags: new Set() };
+  for (let i = 0; i < argv.length; i++) {
+    const arg = argv[i];
+    const eq = arg.startsWith('--') ? arg.indexOf('=') : -1;
+    const [name, inline] = eq > 0 ? [arg.slice(0, eq), arg.slice(eq + 1)] : [arg, undefined];
+    if (VALUE_OPTIONS.includes(name)) {
+      const value = inline ?? argv[++i];
+      if (value === undefined) throw new UsageError(`${name} needs a value`);
+      (parsed.values[name] ??= []).push(value);
+    } else if (FLAG_OPTIONS.includes(name)) {
+      parsed.flags.add(name);
+    } else if (arg.startsWith('-')) {
+      throw new UsageError(`Unknown option ${arg}`);
+    } else if (!parsed.command) {
+      parsed.command = arg;
+    } else {
+      parsed.positional.push(arg);
+    }
+  }
+  return parsed;
+}
+
+function last(args: ParsedArgs, name: string): string | undefined {
+  return args.values[name]?.[args.values[name].length - 1];
+}
+
+function count(args: ParsedArgs, name: string): number | undefined {
+  const value = last(args, name);
+  if (value === undefined) return undefined;
+  const n = Number(value);
+  if (!Number.isInteger(n) || n < 0) throw new UsageError(`${name} expects a whole number, got "${value}"`);
+  return n;
+}
+
+function formats(args: ParsedArgs): ExportFormat[] {
+  const list = (args.values['--format'] ?? []).flatMap((f) => f.split(',')).map((f) => f.trim()).filter(Boolean);
+  const unknown = list.filter((f) => !EXPORT_FORMATS.includes(f as ExportFormat));
+  if (unknown.length) throw new UsageError(`Unknown format ${unknown.join(', ')}, expected: ${EXPORT_FORMATS.join(', ')}`);
+  return list as ExportFormat[];
+}
+
+function featurePaths(args: ParsedArgs): string[] {
+  try {
+    return resolveFeatures(args.positional);
+  } catch (e: any) {
+    throw new UsageError(e.message);
+  }
+}
+
+const SHARD_STRATEGIES: ShardStrategy[] = ['feature', 'scenario'];
+
+/** The shards picked by --shard/--shards, or undefined without sharding */
+function shards(args: ParsedArgs, options: RunOptions): Shard[] | undefined {
+  const shard = last(args, '--shard');
+  const total = count(args, '--shards');
+  const strategy = (last(args, '--shard-by') ?? 'feature') as ShardStrategy;
+  if (!SHARD_STRATEGIES.includes(strategy)) throw new UsageError(`--shard-by expects ${SHARD_STRATEGIES.join(' or ')}, got "${strategy}"`);
+  if (shard && total !== undefined) throw new UsageError('Use either --shard or --shards');
+  if (!shard && total === undefined) return undefined;
+  if (total === 0) throw new UsageError('--shards must be at least 1');
+  let picked: { index: number; total: number };
+  try {
+    picked = shard ? parseShard(shard) : { index: 0, total: total! };
+  } catch (e: any) {
+    throw new UsageError(e.message);
+  }
+  const plan = shardPlan(options, picked.total, strategy);
+  return picked.index ? [plan[picked.index - 1]] : plan;
+}
+
+function runOptions(args: ParsedArgs): RunOptions {
+  const tags = args.values['--tags'];
+  const browser = last(args, '--browser');
+  if (browser && !BROWSERS.includes(browser)) throw new UsageError(`Unknown browser "${browser}", expected one of: ${BROWSERS.join(', ')}`);
+  return {
+    features: args.positional,
+    tags: tags && (tags.length > 1 ? tags.map((t) => `(${t})`).join(' and ') : tags[0]),
+    env: last(args, '--env'),
+    browser,
+    profile: last(args, '--profile'),
+    workers: count(args, '--workers'),
+    retries: count(args, '--retries'),
+    retryTags: last(args, '--retry-tags'),
+    headless: args.flags.has('--headed') ? false : undefined,
+    updateSnapshots: args.flags.has('--update-snapshots'),
+  };
+}
+
+/** Generate the reports whatever the outcome, then pick the exit code */
+async function finish(code: number, startedAt: number, exports: ExportFormat[], android = false): Promise<number> {
+  const reportCode = await generateReports(exports);
+  const outcome = android ? (code === 0 ? EXIT_CODES.passed : EXIT_CODES.failed) : runOutcome(code, startedAt);
+  return outcome === EXIT_CODES.passed && reportCode !== 0 ? EXIT_CODES.error : outcome;
+}
+
+async function run(args: ParsedArgs): Promise<number> {
+  const options = runOptions(args);
+  const exports = formats(args);
+  const startedAt = Date.now();
+  if (args.flags.has('--android') && (args.values['--shard'] || args.values['--shards'])) throw new UsageError('Android specs cannot be sharded');
+  if (args.flags.has('--android')) return finish(await runWdio(args.positional, options), startedAt, exports, true);
+  featurePaths(args);
+  const planned = shards(args, options);
+  if (!planned) return finish(await runCucumber(options), startedAt, exports);
+  return finish(await runShards(options, planned, count(args, '--pool') || undefined), startedAt, exports);
+}
+
+async function matrix(args: ParsedArgs): Promise<number> {
+  if (args.values['--browser'] || args.flags.has('--android')) throw new UsageError('matrix takes --browsers, not --browser or --android');
+  if (args.values['--shard'] || args.values['--shards']) throw new UsageError('matrix cannot be sharded');
+  const options = runOptions(args);
+  const exports = formats(args);
+  featurePaths(args);
+  const browsers = (args.values['--browsers'] ?? []).flatMap((b) => b.split(',')).map((b) => b.trim()).filter(Boolean);
+  let cells: MatrixCell[];
+  try {
+    cells = matrixCells(browsers.length ? browsers : undefined, args.values['--profiles']);
+  } catch (e: any) {
+    throw new UsageError(e.message);
+  }
+  console.log(`Matrix: ${cells.map((c) => c.name).join(', ')}`);
+  const startedAt = Date.now();
+  return finish(await runMatrix(options, cells), startedAt, exports);
+}
+
+function list(args: ParsedArgs): number {
+  const planned = shards(args, { features: args.positional.length ? featurePaths(args) : undefined });
+  if (planned) {
+    for (const shard of planned) {
+      console.log(`Shard ${shard.index}/${shard.total}  ${shard.units.length} unit(s), weight ${Math.round(shard.weight)}`);
+      for (const unit of shard.units) console.log(`  ${unit}`);
+    }
+    return EXIT_CODES.passed;
+  }
+  const wanted = args.positional.length ? featurePaths(args) : undefined;
+  for (const feature of listFeatures()) {
+    if (wanted && !wanted.some((p) => feature.path === p || feature.path.startsWith(`${p.replace(/\/$/, '')}/`))) continue;
+    console.log(`${feature.path}  ${feature.name}${feature.tags.length ? `  ${feature.tags.join(' ')}` : ''}`);
+    for (const scenario of feature.scenarios) {
+      const own = scenario.tags.filter((t) => !feature.tags.includes(t));
+      console.log(`  :${scenario.line}  ${scenario.name}${own.length ? `  ${own.join(' ')}` : ''}`);
+    }
+  }
+  return EXIT_CODES.passed;
+}
+
+// Generated output; cucumber-report.json/.html are checked in and only overwritten by the next run
+const CLEAN_DIRS = ['screenshots', 'recordings'];
+const CLEAN_PATHS = [
+  'traces',
+  'visual-results',
+  'run-metadata',
+  'cucumber-timeline.json',
+  'timeline',
+  'test-dashboard.html',
+  'test-summary.json',
+  'junit-report.xml',
+  'test-report.tap',
+  'test-summary.md',
+  'api_test_report.json',
+  'api_test_report.html',
+];
+
+function clean(args: ParsedArgs): number {
+  const removed: string[] = [];
+  for (const dir of CLEAN_DIRS) {
+    if (!fs.existsSync(dir)) continue;
+    // Keep the directories themselves (and dotfiles like .gitkeep)
+    for (const name of fs.readdirSync(dir).filter((n) => !n.startsWith('.'))) {
+      fs.rmSync(path.join(dir, name), { recursive: true, force: true });
+      removed.push(path.join(dir, name));
+    }
+  }
+  for (const target of [...CLEAN_PATHS, ...(args.flags.has('--all') ? ['reports'] : [])]) {
+    if (!fs.existsSync(target)) continue;
+    fs.rmSync(target, { recursive: true, force: true });
+    removed.push(target);
+  }
+  console.log(removed.length ? `Removed ${removed.length} path(s)` : 'Nothing to clean');
+  return EXIT_CODES.passed;
+}
+
+async function main(): Promise<number> {
+  const args = parseArgs(process.argv.slice(2));
+  if (args.flags.has('--help') || !args.command) {
+    console.log(USAGE);
+    return args.command || args.flags.has('--help') ? EXIT_CODES.passed : EXIT_CODES.usage;
+  }
+  switch (args.command) {
+    case 'run':
+      return run(args);
+    case 'matrix':
+      return matrix(args);
+    case 'list':
+      return list(args);
+    case 'report': {
+      const code = await generateReports(formats(args));
+      return code === 0 ? EXIT_CODES.passed : EXIT_CODES.error;
+    }
+    case 'clean':
+      return clean(args);
+    default:
+      throw new UsageError(`Unknown command "${args.command}"`);
+  }
+}
+
+main()
+  .then((code) => process.exit(code))
+  .catch((e) => {
+    console.error(`Error: ${e?.message ?? e}`);
+    if (e instanceof UsageError) console.error(`\n${USAGE}`);
+    process.exit(e instanceof UsageError ? EXIT_CODES.usage : EXIT_CODES.error);
+  });
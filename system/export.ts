@@ -0,0 +1,25 @@
+import { exportReport, type ExportFormat } from '@/playwright';
+
+// Usage: npm run report:export -- junit tap markdown [--output <file>]
+const FORMATS: ExportFormat[] = ['junit', 'tap', 'markdown'];
+
+async function main() {
+  const args = process.argv.slice(2);
+  const outIdx = args.indexOf('--output');
+  const output = outIdx >= 0 ? args[outIdx + 1] : undefined;
+  const formats = args.filter((a, i) => !a.startsWith('--') && (outIdx < 0 || i !== outIdx + 1));
+
+  if (!formats.length) throw `Format missing, expected one or more of: ${FORMATS.join(', ')}`;
+  const unknown = formats.filter((f) => !FORMATS.includes(f as ExportFormat));
+  if (unknown.length) throw `Unknown format ${unknown.join(', ')}, expected: ${FORMATS.join(', ')}`;
+  if (output && formats.length > 1) throw '--output only works with a single format';
+
+  for (const format of formats) {
+    console.log(`Wrote ${await exportReport(format as ExportFormat, output)}`);
+  }
+}
+
+main().catch((e) => {
+  console.error(`Error: ${e}`);
+  process.exit(1);
+});
@@ -0,0 +1,18 @@
+import { startServer } from '@/server';
+
+// Usage: npm run server [-- --port 3000]
+async function main() {
+  const args = process.argv.slice(2);
+  const portIdx = args.indexOf('--port');
+  const port = portIdx >= 0 ? Number(args[portIdx + 1]) : undefined;
+  if (port !== undefined && !Number.isInteger(port)) throw '--port expects a number';
+
+  const server = await startServer(port);
+  const address = server.address();
+  if (address && typeof address === 'object') console.log(`Control server on http://${address.address}:${address.port}`);
+}
+
+main().catch((e) => {
+  console.error(`Error: ${e}`);
+  process.exit(1);
+});
@@ -0,0 +1,14 @@
+Feature: Run history
+
+  Scenario: A report without a run id is not recorded
+    Given an empty history directory
+    When the history is updated with a report without a run id
+    Then the history has 0 runs
+    And the trends page is written
+
+  Scenario: Re-generating the report of a run replaces its entry
+    Given an empty history directory
+    When the history is updated with the report of run 42
+    And the history is updated with the report of run 42
+    And the history is updated with the report of run 43
+    Then the history has 2 runs
@@ -0,0 +1,45 @@
+import assert from "assert";
+import fs from "fs";
+import os from "os";
+import path from "path";
+
+import { After, Given, When, Then } from "@cucumber/cucumber";
+import { readHistory, updateHistory, type RunReport } from '@/report';
+
+let root = '';
+let dir = '';
+
+function report(runId?: number): RunReport {
+  return {
+    generatedAt: new Date().toISOString(),
+    runId,
+    metadata: runId === undefined ? {} : { Started: '2026-01-01T00:00:00.000Z' },
+    scenarios: [{ id: 'login;open', name: 'Open', feature: 'Login', uri: 'features/login.feature', platform: 'web', source: 'cucumber', status: 'passed', durationMs: 10, tags: [], steps: [] }],
+  };
+}
+
+Given("an empty history directory", function () {
+  root = fs.mkdtempSync(path.join(os.tmpdir(), 'history-'));
+  dir = path.join(root, 'reports', 'history');
+});
+
+After(function () {
+  if (root) fs.rmSync(root, { recursive: true, force: true });
+  root = '';
+});
+
+When("the history is updated with a report without a run id", function () {
+  updateHistory(report(), dir);
+});
+
+When("the history is updated with the report of run {int}", function (runId: number) {
+  updateHistory(report(runId), dir);
+});
+
+Then("the history has {int} runs", function (count: number) {
+  assert.equal(readHistory(path.join(dir, 'runs.jsonl')).length, count);
+});
+
+Then("the trends page is written", function () {
+  assert.ok(fs.existsSync(path.join(dir, 'trends.html')));
+});
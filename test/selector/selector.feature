@@ -0,0 +1,43 @@
+Feature: Selector notation
+
+  Scenario: Normalize prefixed selectors
+    Then the selectors normalize as follows
+      | selector                                   | normalized                                    |
+      | id:login-button                            | #login-button                                 |
+      | id:user.name                               | [id="user.name"]                              |
+      | name:email                                 | [name="email"]                                |
+      | input:password                             | input[name="password"], input#password        |
+      | css:.title                                 | .title                                        |
+      | css:a:hover                                | a:hover                                       |
+      | a:hover                                    | a:hover                                       |
+      | button                                     | button                                        |
+      | text:Login                                 | text=Login                                    |
+      | text:"Login"                               | text="Login"                                  |
+      | label:Email address                        | label=Email address                           |
+      | placeholder:Search                         | placeholder=Search                            |
+      | testid:submit                              | [data-testid="submit"]                        |
+      | xpath://div[@id="main"]                    | xpath=//div[@id="main"]                       |
+      | role:button                                | role=button                                   |
+      | role:button[name=Login]                    | role=button[name="Login"]                     |
+      | role:button[name="Log in"][exact]          | role=button[name="Log in"][exact=true]        |
+      | role:heading[level=2]                      | role=heading[level=2]                         |
+      | css:form >> role:button[name=Login]        | form >> role=button[name="Login"]             |
+      | css:.inventory_item >> nth=2 >> text:Add   | .inventory_item >> nth=2 >> text=Add          |
+      | text:"a >> b"                              | text="a >> b"                                 |
+
+  Scenario: Parse role options
+    Then "role:checkbox[name='Remember me'][checked=false]" parses to
+      """
+      [{"kind":"role","role":"checkbox","options":{"name":"Remember me","checked":false}}]
+      """
+
+  Scenario: Reject malformed selectors
+    Then the selectors are rejected
+      | selector                   |
+      | css:.a >>                  |
+      | text:"unterminated         |
+      | id:                        |
+      | css:.a >> nth=first        |
+      | role:button[size=2]        |
+      | role:heading[level=high]   |
+      | nth=0                      |
@@ -0,0 +1,20 @@
+import assert from "assert";
+
+import { Then, DataTable } from "@cucumber/cucumber";
+import { parseSelector, normalizeSelector } from '@/selector';
+
+Then("the selectors normalize as follows", function (table: DataTable) {
+  for (const { selector, normalized } of table.hashes()) {
+    assert.equal(normalizeSelector(selector), normalized, selector);
+  }
+});
+
+Then("{string} parses to", function (selector: string, expected: string) {
+  assert.deepEqual(parseSelector(selector), JSON.parse(expected));
+});
+
+Then("the selectors are rejected", function (table: DataTable) {
+  for (const { selector } of table.hashes()) {
+    assert.throws(() => normalizeSelector(selector), Error, selector);
+  }
+});
@@ -0,0 +1,58 @@
+Feature: Shard planning
+
+  Scenario: Parse shard arguments
+    Then the shard "2/4" is 2 of 4
+    And the shards are rejected
+      | shard |
+      | 0/4   |
+      | 5/4   |
+      | 2-4   |
+      | 2/    |
+
+  Scenario: Balance shards by historical duration
+    Given the feature files
+      | feature | path                    | scenarios |
+      | Login   | features/login.feature  | A, B      |
+      | Cart    | features/cart.feature   | C         |
+      | Search  | features/search.feature | D, E, F   |
+    And the scenario durations
+      | feature | scenario | ms   |
+      | Login   | A        | 9000 |
+      | Cart    | C        | 1000 |
+      | Search  | D        | 1000 |
+      | Search  | E        | 1000 |
+      | Search  | F        | 1000 |
+    Then sharding by scenario into 2 gives
+      | shard | units                                                                                                                              |
+      | 1     | features/login.feature:1                                                                                                           |
+      | 2     | features/cart.feature:1, features/login.feature:2, features/search.feature:1, features/search.feature:2, features/search.feature:3 |
+    And sharding by feature into 2 gives
+      | shard | units                                          |
+      | 1     | features/login.feature                         |
+      | 2     | features/search.feature, features/cart.feature |
+
+  Scenario: Split by count without history
+    Given the feature files
+      | feature | path                   | scenarios |
+      | Login   | features/login.feature | A, B      |
+      | Cart    | features/cart.feature  | C         |
+    Then sharding by scenario into 3 gives
+      | shard | units                    |
+      | 1     | features/cart.feature:1  |
+      | 2     | features/login.feature:1 |
+      | 3     | features/login.feature:2 |
+    And sharding by feature into 3 gives
+      | shard | units                  |
+      | 1     | features/login.feature |
+      | 2     | features/cart.feature  |
+      | 3     |                        |
+
+  Scenario: Average matrix cells and add up outline rows
+    Given the run history
+      | feature | scenario | id               | variant  | ms   |
+      | Login   | A        | login;a;chromium | chromium | 1000 |
+      | Login   | A        | login;a;firefox  | firefox  | 3000 |
+      | Search  | D        | search;d;5       |          | 500  |
+      | Search  | D        | search;d;6       |          | 700  |
+    Then the historical duration of "Login" › "A" is 2000
+    And the historical duration of "Search" › "D" is 1200
@@ -0,0 +1,62 @@
+import assert from "assert";
+
+import { Given, Then, DataTable } from "@cucumber/cucumber";
+import { type FeatureInfo } from '@/features';
+import { type ScenarioTrend } from '@/report';
+import { historicalDurations, parseShard, planShards, type ShardStrategy } from '@/shard';
+
+let features: FeatureInfo[] = [];
+let durations = new Map<string, number>();
+
+Given("the feature files", function (table: DataTable) {
+  durations = new Map();
+  features = table.hashes().map(({ feature, path, scenarios }) => ({
+    path,
+    name: feature,
+    tags: [],
+    scenarios: scenarios.split(',').map((name, i) => ({ name: name.trim(), line: i + 1, tags: [] })),
+  }));
+});
+
+Given("the scenario durations", function (table: DataTable) {
+  for (const { feature, scenario, ms } of table.hashes()) durations.set(`${feature}\u0000${scenario}`, Number(ms));
+});
+
+Given("the run history", function (table: DataTable) {
+  const trends = table.hashes().map(({ feature, scenario, id, variant, ms }): ScenarioTrend => ({
+    id,
+    name: scenario,
+    variant: variant || undefined,
+    feature,
+    platform: 'web',
+    runs: 1,
+    passRate: 1,
+    flips: 0,
+    flakyRuns: 0,
+    avgDurationMs: Number(ms),
+    p95DurationMs: Number(ms),
+    lastStatus: 'passed',
+    failingStreak: 0,
+  }));
+  durations = historicalDurations(trends);
+});
+
+Then("the historical duration of {string} › {string} is {int}", function (feature: string, scenario: string, ms: number) {
+  assert.equal(durations.get(`${feature}\u0000${scenario}`), ms);
+});
+
+Then("the shard {string} is {int} of {int}", function (value: string, index: number, total: number) {
+  assert.deepEqual(parseShard(value), { index, total });
+});
+
+Then("the shards are rejected", function (table: DataTable) {
+  for (const { shard } of table.hashes()) {
+    assert.throws(() => parseShard(shard), Error, shard);
+  }
+});
+
+Then("sharding by {word} into {int} gives", function (strategy: ShardStrategy, total: number, table: DataTable) {
+  const plan = planShards(features, total, strategy, durations);
+  const expected = table.hashes().map(({ units }) => units.split(',').map((u) => u.trim()).filter(Boolean));
+  assert.deepEqual(plan.map((s) => s.units), expected);
+});